@@ -35,6 +35,7 @@ export default defineConfig({
               "@codemirror/lint", 
               "@codemirror/search", 
               "@codemirror/language", 
+              "@codemirror/lang-javascript", 
               "@lezer/common", 
               "@lezer/highlight", 
               "@lezer/lr"
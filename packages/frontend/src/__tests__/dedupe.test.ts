@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { deduplicateNames, sanitizeDedupeStrategy, type NameCandidate } from "../dedupe";
+import { parseRawRequest } from "../request";
+
+function candidate(name: string, raw: string): NameCandidate {
+  const result = parseRawRequest(raw);
+  if (!result.ok) throw new Error(result.message);
+  return { name, request: result.request };
+}
+
+const first = candidate('GET /users', 'GET /users?id=1 HTTP/1.1\r\nHost: a.test\r\n\r\n');
+const second = candidate('GET /users', 'GET /users?id=2 HTTP/1.1\r\nHost: a.test\r\n\r\n');
+
+describe('deduplicateNames', () => {
+  it('keeps colliding names with the off strategy', () => {
+    expect(deduplicateNames([first, second], [], 'off')).toEqual(['GET /users', 'GET /users']);
+  });
+
+  it('numbers collisions, skipping the names already taken', () => {
+    expect(deduplicateNames([first, second], ['GET /users #2'], 'counter')).toEqual(['GET /users', 'GET /users #3']);
+  });
+
+  it('counts the names of sessions that are not being renamed', () => {
+    expect(deduplicateNames([first], ['GET /users'], 'counter')).toEqual(['GET /users #2']);
+  });
+
+  it('adds the field that differs from the first request with the name', () => {
+    expect(deduplicateNames([first, second], [], 'field')).toEqual(['GET /users', 'GET /users (id=2)']);
+  });
+
+  it('adds a short hash of the request', () => {
+    const [, hashed] = deduplicateNames([first, second], [], 'hash');
+    expect(hashed).toMatch(/^GET \/users ~[0-9a-z]{4}$/);
+  });
+
+  it('falls back to a counter for identical requests', () => {
+    expect(deduplicateNames([first, first, first], [], 'field')).toEqual(['GET /users', 'GET /users #2', 'GET /users #3']);
+    const hashed = deduplicateNames([first, first, first], [], 'hash');
+    expect(hashed[2]).toBe(`${hashed[1]} #2`);
+  });
+});
+
+describe('sanitizeDedupeStrategy', () => {
+  it('defaults to the counter', () => {
+    expect(sanitizeDedupeStrategy('hash')).toBe('hash');
+    expect(sanitizeDedupeStrategy('other')).toBe('counter');
+  });
+});
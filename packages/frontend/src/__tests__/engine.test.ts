@@ -0,0 +1,229 @@
+import { describe, expect, it } from "vitest";
+import { createRenamingEngine, type RenamingEngine } from "../engine";
+import { createFakeReplay, rawRequest, type FakeReplay } from "./fakeReplay";
+
+async function reconcile(engine: RenamingEngine) {
+  let result: Awaited<ReturnType<RenamingEngine['reconcile']>> = null;
+  await engine.runExclusive('test', async run => {
+    result = await engine.reconcile(run);
+  });
+  return result;
+}
+
+function setup(replay: FakeReplay = createFakeReplay()) {
+  return { replay, engine: createRenamingEngine(replay.deps) };
+}
+
+describe('reconcile', () => {
+  it('renames new sessions once and remembers them', async () => {
+    const { replay, engine } = setup();
+    replay.addSession({ request: rawRequest('GET', '/users') });
+    replay.addSession({ request: rawRequest('POST', '/login') });
+
+    expect(await reconcile(engine)).toMatchObject({ total: 2, known: 2, new: 0 });
+    expect(replay.names()).toEqual(['GET /users', 'POST /login']);
+    expect(replay.storage.knownSessions).toEqual(['1', '2']);
+
+    replay.addSession({ request: rawRequest('GET', '/health') });
+    replay.fetches = [];
+    await reconcile(engine);
+
+    expect(replay.fetches).toEqual([['3']]);
+    expect(replay.renames.map(rename => rename.sessionId)).toEqual(['1', '2', '3']);
+  });
+
+  it('fetches details in steps of the configured size, with one reader per run', async () => {
+    const { replay, engine } = setup();
+    replay.config.detailsBatchSize = 2;
+    ['/a', '/b', '/c'].forEach(path => replay.addSession({ request: rawRequest('GET', path) }));
+
+    await reconcile(engine);
+
+    expect(replay.fetches).toEqual([['1', '2'], ['3']]);
+    expect(replay.readers).toBe(1);
+  });
+
+  it('de-duplicates names against every session', async () => {
+    const { replay, engine } = setup();
+    replay.addSession({ name: 'GET /users', request: null });
+    replay.addSession({ request: rawRequest('GET', '/users') });
+    replay.addSession({ request: rawRequest('GET', '/users') });
+
+    await reconcile(engine);
+
+    expect(replay.names()).toEqual(['GET /users', 'GET /users #2', 'GET /users #3']);
+  });
+
+  it('keeps sessions that could not be fetched unknown, and retries them', async () => {
+    const { replay, engine } = setup();
+    const failing = replay.addSession({ request: rawRequest('GET', '/a'), failing: true });
+    replay.addSession({ request: null });
+
+    await reconcile(engine);
+    expect(replay.storage.knownSessions).toEqual(['2']);
+    expect(failing.name).toBe('1');
+
+    failing.failing = false;
+    await reconcile(engine);
+    expect(failing.name).toBe('GET /a');
+    expect(replay.storage.knownSessions).toEqual(['1', '2']);
+  });
+
+  it('keeps sessions whose rename failed unknown, and retries them', async () => {
+    const { replay, engine } = setup();
+    const readOnly = replay.addSession({ request: rawRequest('GET', '/a'), readOnly: true });
+    replay.addSession({ request: rawRequest('GET', '/b') });
+
+    await reconcile(engine);
+    expect(replay.storage.knownSessions).toEqual(['2']);
+    expect(replay.storage.renameHistory.map(record => record.sessionId)).toEqual(['2']);
+
+    readOnly.readOnly = false;
+    await reconcile(engine);
+    expect(readOnly.name).toBe('GET /a');
+    expect(replay.storage.knownSessions).toEqual(['1', '2']);
+  });
+
+  it('forgets the state of deleted sessions', async () => {
+    const { replay, engine } = setup();
+    replay.addSession({ request: rawRequest('GET', '/a') });
+    replay.addSession({ request: rawRequest('GET', '/b') });
+    await reconcile(engine);
+
+    replay.sessions.shift();
+    replay.addSession({ request: rawRequest('GET', '/c') });
+    await reconcile(engine);
+
+    expect(replay.storage.knownSessions).toEqual(['2', '3']);
+    expect(Object.keys(replay.storage.appliedNames)).toEqual(['2', '3']);
+  });
+
+  it('renames followed sessions only when their request changed', async () => {
+    const { replay, engine } = setup();
+    replay.config.autoFollowEdits = true;
+    const session = replay.addSession({ request: rawRequest('GET', '/a') });
+    await reconcile(engine);
+
+    await reconcile(engine);
+    expect(replay.renames).toHaveLength(1);
+
+    session.request = rawRequest('DELETE', '/a');
+    await reconcile(engine);
+    expect(session.name).toBe('DELETE /a');
+  });
+
+  it('leaves known sessions to session events when not following edits', async () => {
+    const { replay, engine } = setup();
+    replay.config.autoFollowEdits = true;
+    const session = replay.addSession({ request: rawRequest('GET', '/a') });
+    await reconcile(engine);
+
+    session.request = rawRequest('GET', '/b');
+    replay.fetches = [];
+    await engine.runExclusive('test', async run => {
+      await engine.reconcile(run, { followEdits: false });
+    });
+    expect(replay.fetches).toEqual([]);
+
+    await engine.runExclusive('test', async run => {
+      await engine.processSessions([{ id: session.id, name: session.name }], run);
+    });
+    expect(session.name).toBe('GET /b');
+  });
+
+  it('adds the response label to the names', async () => {
+    const { replay, engine } = setup();
+    replay.config.responseLabel = { enabled: true, format: '[{status}]', position: 'prefix' };
+    replay.addSession({ request: rawRequest('GET', '/a'), response: { id: 'r1', statusCode: 403, length: 10, roundtripTime: 5, contentType: '' } });
+    replay.addSession({ request: rawRequest('GET', '/b'), response: null });
+
+    await reconcile(engine);
+
+    expect(replay.names()).toEqual(['[403] GET /a', 'GET /b']);
+  });
+
+  it('leaves new sessions unknown when the run is cancelled', async () => {
+    const { replay, engine } = setup();
+    replay.addSession({ request: rawRequest('GET', '/a') });
+
+    await engine.runExclusive('test', async run => {
+      run.cancelled = true;
+      await engine.reconcile(run);
+    });
+
+    expect(replay.renames).toEqual([]);
+    expect(replay.storage.knownSessions).toEqual([]);
+  });
+});
+
+describe('processSessions', () => {
+  it('renames known sessions again when an event reports a new active entry', async () => {
+    const { replay, engine } = setup();
+    replay.config.responseLabel = { enabled: true, format: '[{status}]', position: 'prefix' };
+    const session = replay.addSession({ request: rawRequest('GET', '/a'), response: { id: 'r1', statusCode: 403, length: 10, roundtripTime: 5, contentType: '' } });
+    await reconcile(engine);
+    expect(session.name).toBe('[403] GET /a');
+
+    const sendEvent = (activeEntryId: string) => engine.runExclusive('test', async run => {
+      await engine.processSessions([{ id: session.id, name: session.name, activeEntryId }], run);
+    });
+
+    session.response = { id: 'r2', statusCode: 200, length: 10, roundtripTime: 5, contentType: '' };
+    await sendEvent('e2');
+    expect(session.name).toBe('[200] GET /a');
+
+    // The same entry reported again is not fetched
+    replay.fetches = [];
+    await sendEvent('e2');
+    expect(replay.fetches).toEqual([]);
+  });
+});
+
+describe('revertRenames', () => {
+  it('reverts the renames of one run, whatever the run ids of earlier loads', async () => {
+    const replay = createFakeReplay();
+    replay.addSession({ request: rawRequest('GET', '/a') });
+    await reconcile(createRenamingEngine(replay.deps));
+
+    // A new engine stands for the plugin loaded again
+    const engine = createRenamingEngine(replay.deps);
+    replay.addSession({ request: rawRequest('GET', '/b') });
+    await reconcile(engine);
+
+    const [latest, earlier] = replay.storage.renameHistory;
+    expect(latest?.runId).not.toBe(earlier?.runId);
+
+    await engine.runExclusive('test', async run => {
+      await engine.revertRenames({ kind: 'run', runId: latest?.runId ?? 0 }, run);
+    });
+    expect(replay.names()).toEqual(['GET /a', '2']);
+  });
+
+  it('restores the previous name and marks the record reverted', async () => {
+    const { replay, engine } = setup();
+    const session = replay.addSession({ request: rawRequest('GET', '/a') });
+    await reconcile(engine);
+
+    const [record] = replay.storage.renameHistory;
+    await engine.runExclusive('test', async run => {
+      await engine.revertRenames({ kind: 'record', recordId: record?.id ?? '' }, run);
+    });
+
+    expect(session.name).toBe('1');
+    expect(replay.storage.renameHistory[0]?.revertedAt).not.toBeNull();
+  });
+
+  it('skips sessions renamed since', async () => {
+    const { replay, engine } = setup();
+    const session = replay.addSession({ request: rawRequest('GET', '/a') });
+    await reconcile(engine);
+
+    session.name = 'mine';
+    await engine.runExclusive('test', async run => {
+      await engine.revertRenames({ kind: 'since', timestamp: 0 }, run);
+    });
+
+    expect(session.name).toBe('mine');
+    expect(replay.storage.renameHistory[0]?.revertedAt).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+// In-memory replay sessions and plugin storage, standing in for Caido in engine tests
+
+import type { EngineConfig, EngineDependencies, SessionInfo } from "../engine";
+import { GraphQLClientError, type SessionDetailsResult } from "../graphql";
+import { DEFAULT_PATH_FORMAT } from "../paths";
+import { DEFAULT_RESPONSE_LABEL, type ResponseSummary } from "../response";
+import { getDefaultStorage, type PluginStorage } from "../storage";
+
+export interface FakeSession {
+  id: string;
+  name: string;
+  collectionId?: string;
+  request: string | null; // Raw request of the active entry, null for a session without entry
+  response?: ResponseSummary | null;
+  failing?: boolean; // Fetching its details fails
+  readOnly?: boolean; // Renaming it fails
+}
+
+export interface FakeReplay {
+  sessions: FakeSession[];
+  collections: { id: string; name: string }[];
+  storage: PluginStorage; // As last updated by the engine
+  renames: { sessionId: string; name: string }[]; // Every rename sent, in order
+  fetches: string[][]; // Session ids of every details request
+  readers: number; // Details readers created, one per pass over the sessions
+  config: EngineConfig;
+  addSession(session: Partial<FakeSession> & { request: string | null }): FakeSession;
+  getSession(id: string): FakeSession;
+  names(): string[];
+  deps: EngineDependencies;
+}
+
+export function getTestConfig(): EngineConfig {
+  return {
+    namingRules: [],
+    namingMode: 'function',
+    namingFunction: '',
+    namingTemplate: null,
+    pathFormat: DEFAULT_PATH_FORMAT,
+    dedupeStrategy: 'counter',
+    responseLabel: DEFAULT_RESPONSE_LABEL,
+    organizeMode: 'off',
+    autoFollowEdits: false,
+    detailsBatchSize: 25,
+    renameConcurrency: 4,
+    functionTimeout: 1000
+  };
+}
+
+export function createFakeReplay(storage: PluginStorage = getDefaultStorage()): FakeReplay {
+  let lastSessionId = 0;
+  const replay: FakeReplay = {
+    sessions: [],
+    collections: [],
+    storage: structuredClone(storage),
+    renames: [],
+    fetches: [],
+    readers: 0,
+    config: getTestConfig(),
+
+    // Caido numbers new sessions, like the real replay
+    addSession(session) {
+      const id = String(++lastSessionId);
+      const created: FakeSession = { id, name: id, ...session };
+      replay.sessions.push(created);
+      return created;
+    },
+
+    getSession(id) {
+      const session = replay.sessions.find(candidate => candidate.id === id);
+      if (!session) throw new Error(`No session ${id}`);
+      return session;
+    },
+
+    names() {
+      return replay.sessions.map(session => session.name);
+    },
+
+    deps: {
+      storage: {
+        get: () => Promise.resolve(structuredClone(replay.storage)),
+        update: change => {
+          change(replay.storage);
+          return Promise.resolve(structuredClone(replay.storage));
+        }
+      },
+      sessions: {
+        getSessions: (): SessionInfo[] => replay.sessions.map(({ id, name, collectionId }) => ({ id, name, collectionId })),
+        getCollections: () => replay.collections,
+        createDetailsReader: () => {
+          replay.readers++;
+          return {
+            getSessionDetailsBatch: (sessionIds, _concurrency, options = {}) => {
+              replay.fetches.push(sessionIds);
+              return Promise.resolve(new Map(sessionIds.map((id): [string, SessionDetailsResult] => {
+                const session = replay.sessions.find(candidate => candidate.id === id);
+                if (session?.failing) {
+                  return [id, { status: 'failed', error: new GraphQLClientError('Connection reset', 'network', true) }];
+                }
+                if (!session || session.request === null) {
+                  return [id, { status: 'missing' }];
+                }
+                const entry = { raw: btoa(session.request), session: { id, name: session.name } };
+                return [id, { status: 'ok', entry: options.withResponse ? { ...entry, response: session.response ?? null } : entry }];
+              })));
+            }
+          };
+        }
+      },
+      renamer: {
+        renameSession: (sessionId, name) => {
+          if (replay.getSession(sessionId).readOnly) {
+            return Promise.reject(new Error('Session is read-only'));
+          }
+          replay.renames.push({ sessionId, name });
+          replay.getSession(sessionId).name = name;
+          return Promise.resolve();
+        },
+        createCollection: name => {
+          const id = `c${replay.collections.length + 1}`;
+          replay.collections.push({ id, name });
+          return Promise.resolve(id);
+        },
+        moveSession: (sessionId, collectionId) => {
+          replay.getSession(sessionId).collectionId = collectionId;
+          return Promise.resolve();
+        }
+      },
+      getConfig: () => replay.config
+    }
+  };
+  return replay;
+}
+
+export function rawRequest(method: string, path: string, host = 'api.test'): string {
+  return `${method} ${path} HTTP/1.1\r\nHost: ${host}\r\n\r\n`;
+}
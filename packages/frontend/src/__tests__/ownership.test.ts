@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { createRenamingEngine, type RenamingEngine } from "../engine";
+import { isCaidoDefaultName, isManuallyRenamed, sanitizeSessionLocks } from "../ownership";
+import { getDefaultStorage } from "../storage";
+import { createFakeReplay, rawRequest, type FakeReplay } from "./fakeReplay";
+
+async function reconcile(engine: RenamingEngine) {
+  await engine.runExclusive('test', async run => {
+    await engine.reconcile(run);
+  });
+}
+
+function setup(replay: FakeReplay = createFakeReplay()) {
+  return { replay, engine: createRenamingEngine(replay.deps) };
+}
+
+describe('isManuallyRenamed', () => {
+  it('ignores Caido default names and the name the plugin applied', () => {
+    expect(isCaidoDefaultName(' 12 ')).toBe(true);
+    expect(isManuallyRenamed('12', undefined)).toBe(false);
+    expect(isManuallyRenamed('GET /a', 'GET /a')).toBe(false);
+    expect(isManuallyRenamed('login flow', 'GET /a')).toBe(true);
+  });
+});
+
+describe('sanitizeSessionLocks', () => {
+  it('drops entries that are not locks and defaults their fields', () => {
+    expect(sanitizeSessionLocks({ 1: { reason: 'user', name: 'a', lockedAt: 5 }, 2: { reason: 'x' }, 3: 'locked' })).toEqual({
+      1: { reason: 'user', name: 'a', lockedAt: 5 },
+      2: { reason: 'renamed', name: '', lockedAt: 0 }
+    });
+  });
+});
+
+describe('session ownership', () => {
+  it('locks new sessions already renamed by hand instead of renaming them', async () => {
+    const { replay, engine } = setup();
+    replay.addSession({ name: 'my login', request: rawRequest('POST', '/login') });
+    replay.addSession({ request: rawRequest('GET', '/me') });
+
+    await reconcile(engine);
+
+    expect(replay.names()).toEqual(['my login', 'GET /me']);
+    expect(replay.storage.sessionLocks['1']).toMatchObject({ reason: 'renamed', name: 'my login' });
+    expect(replay.storage.appliedNames).toEqual({ 2: 'GET /me' });
+  });
+
+  it('locks followed sessions renamed by hand since the plugin named them', async () => {
+    const { replay, engine } = setup();
+    replay.config.autoFollowEdits = true;
+    const session = replay.addSession({ request: rawRequest('GET', '/a') });
+    await reconcile(engine);
+
+    session.name = 'mine';
+    session.request = rawRequest('GET', '/b');
+    await reconcile(engine);
+
+    expect(session.name).toBe('mine');
+    expect(replay.storage.sessionLocks[session.id]?.reason).toBe('renamed');
+  });
+
+  it('never renames locked sessions, unlocking adopts their current name', async () => {
+    const { replay, engine } = setup();
+    replay.config.autoFollowEdits = true;
+    const session = replay.addSession({ request: rawRequest('GET', '/a') });
+    await reconcile(engine);
+
+    await engine.setSessionLocked(session, true);
+    session.request = rawRequest('GET', '/b');
+    await reconcile(engine);
+    expect(session.name).toBe('GET /a');
+
+    session.name = 'kept';
+    await engine.setSessionLocked(session, false);
+    expect(replay.storage.sessionLocks).toEqual({});
+    expect(replay.storage.appliedNames[session.id]).toBe('kept');
+
+    session.request = rawRequest('GET', '/c');
+    await reconcile(engine);
+    expect(session.name).toBe('GET /c');
+  });
+
+  it('keeps a lock set while a run is in progress', async () => {
+    const { replay, engine } = setup();
+    const locked = replay.addSession({ name: 'mine', request: rawRequest('GET', '/a') });
+    replay.addSession({ request: rawRequest('GET', '/b') });
+
+    await Promise.all([reconcile(engine), engine.setSessionLocked(locked, true)]);
+
+    expect(replay.storage.sessionLocks[locked.id]?.reason).toBe('user');
+    expect(replay.storage.knownSessions).toEqual(['1', '2']);
+  });
+
+  it('renames sessions named by hand when asked explicitly', async () => {
+    const { replay, engine } = setup();
+    const session = replay.addSession({ name: 'mine', request: rawRequest('GET', '/a') });
+
+    await engine.runExclusive('test', async run => {
+      await engine.renameNow([session], run, { replaceManual: true });
+    });
+
+    expect(session.name).toBe('GET /a');
+    expect(replay.storage.sessionLocks).toEqual({});
+  });
+
+  it('adopts the current name of known sessions stored without an applied name', async () => {
+    const storage = getDefaultStorage();
+    storage.knownSessions = ['1'];
+    const { replay, engine } = setup(createFakeReplay(storage));
+    replay.config.autoFollowEdits = true;
+    const session = replay.addSession({ name: 'GET /old', request: rawRequest('GET', '/old') });
+
+    await reconcile(engine);
+    expect(replay.storage.sessionLocks).toEqual({});
+    expect(replay.storage.appliedNames[session.id]).toBe('GET /old');
+
+    session.request = rawRequest('GET', '/new');
+    await reconcile(engine);
+    expect(session.name).toBe('GET /new');
+  });
+
+  it('locks sessions without entry that are renamed by hand once known', async () => {
+    const { replay, engine } = setup();
+    replay.config.autoFollowEdits = true;
+    const session = replay.addSession({ request: null });
+    await reconcile(engine);
+    expect(replay.storage.knownSessions).toEqual([session.id]);
+
+    session.name = 'mine';
+    session.request = rawRequest('GET', '/a');
+    await reconcile(engine);
+
+    expect(session.name).toBe('mine');
+    expect(replay.storage.sessionLocks[session.id]?.reason).toBe('renamed');
+  });
+});
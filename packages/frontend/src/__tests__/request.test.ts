@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { decodeRawRequest, getDisplayMethod, parseRawRequest, type ParsedRequest } from "../request";
+
+function parse(raw: string): ParsedRequest {
+  const result = parseRawRequest(raw);
+  if (!result.ok) throw new Error(result.message);
+  return result.request;
+}
+
+describe('parseRawRequest', () => {
+  it('reads the request line, headers, query and cookies', () => {
+    const request = parse('GET /users/42?sort=name&page=2#top HTTP/1.1\r\nHost: api.test\r\nCookie: sid=abc; theme=dark\r\n\r\n');
+
+    expect(request).toMatchObject({
+      method: 'GET',
+      targetForm: 'origin',
+      path: '/users/42?sort=name&page=2#top',
+      pathname: '/users/42',
+      host: 'api.test',
+      httpVersion: 'HTTP/1.1',
+      queryString: 'sort=name&page=2',
+      query: { sort: 'name', page: '2' },
+      cookies: { sid: 'abc', theme: 'dark' },
+      body: { type: 'none' },
+      websocket: false
+    });
+  });
+
+  it('keeps parameters and cookies named after object properties', () => {
+    const request = parse('GET /?constructor=a&toString=b&__proto__=c HTTP/1.1\r\nHost: a.test\r\nCookie: hasOwnProperty=d; __proto__=e\r\n\r\n');
+
+    expect(Object.entries(request.query)).toEqual([['constructor', 'a'], ['toString', 'b'], ['__proto__', 'c']]);
+    expect(Object.entries(request.cookies)).toEqual([['hasOwnProperty', 'd'], ['__proto__', 'e']]);
+  });
+
+  it('parses JSON and form bodies after their content type', () => {
+    const json = parse('POST /api HTTP/1.1\nHost: a.test\nContent-Type: application/json\n\n{"id":7}');
+    expect(json.body).toEqual({ type: 'json', raw: '{"id":7}', json: { id: 7 } });
+
+    const form = parse('POST /login HTTP/1.1\r\nHost: a.test\r\nContent-Type: application/x-www-form-urlencoded\r\n\r\nuser=bob&pass=x%20y');
+    expect(form.body).toEqual({ type: 'form', raw: 'user=bob&pass=x%20y', fields: { user: 'bob', pass: 'x y' } });
+  });
+
+  it('takes the host of absolute and authority targets', () => {
+    const absolute = parse('GET http://user:pw@proxy.test:8080/a?b=1 HTTP/1.1\r\nHost: other.test\r\n\r\n');
+    expect(absolute).toMatchObject({ targetForm: 'absolute', host: 'proxy.test:8080', path: '/a?b=1', query: { b: '1' } });
+
+    const connect = parse('CONNECT api.test:443 HTTP/1.1\r\n\r\n');
+    expect(connect).toMatchObject({ targetForm: 'authority', host: 'api.test:443', path: 'api.test:443' });
+  });
+
+  it('reads HTTP/2 pseudo-header requests', () => {
+    const request = parse(':method: POST\n:path: /graphql\n:authority: h2.test\ncontent-type: application/json\n\n{"query":"query Me { me { id } }"}');
+
+    expect(request).toMatchObject({ method: 'POST', path: '/graphql', host: 'h2.test', httpVersion: 'HTTP/2' });
+    expect(request.operation).toMatchObject({ protocol: 'graphql', name: 'Me' });
+  });
+
+  it('tells WebSocket handshakes apart', () => {
+    const upgrade = parse('GET /ws HTTP/1.1\r\nHost: a.test\r\nUpgrade: websocket\r\nConnection: keep-alive, Upgrade\r\n\r\n');
+    const extendedConnect = parse(':method: CONNECT\n:protocol: websocket\n:path: /chat\n:authority: a.test\n\n');
+
+    expect(upgrade.websocket).toBe(true);
+    expect(extendedConnect.websocket).toBe(true);
+    expect(getDisplayMethod(upgrade)).toBe('WS');
+  });
+
+  it('reports why a request cannot be parsed', () => {
+    expect(parseRawRequest('  \n')).toMatchObject({ ok: false, reason: 'empty' });
+    expect(parseRawRequest('GET\r\n\r\n')).toMatchObject({ ok: false, reason: 'request-line' });
+    expect(parseRawRequest('G(T / HTTP/1.1\r\n\r\n')).toMatchObject({ ok: false, reason: 'method' });
+    expect(parseRawRequest('GET nope HTTP/1.1\r\n\r\n')).toMatchObject({ ok: false, reason: 'target' });
+    expect(parseRawRequest('GET / SPDY\r\n\r\n')).toMatchObject({ ok: false, reason: 'version' });
+  });
+});
+
+describe('decodeRawRequest', () => {
+  it('reads UTF-8 and falls back to one character per byte', () => {
+    expect(decodeRawRequest(btoa(String.fromCharCode(...new TextEncoder().encode('GET /é'))))).toBe('GET /é');
+    expect(decodeRawRequest(btoa('\xff\xfe'))).toBe('\xff\xfe');
+  });
+});
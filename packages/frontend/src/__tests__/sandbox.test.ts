@@ -0,0 +1,64 @@
+import { resolveObjectURL } from "node:buffer";
+import { createContext, runInContext } from "node:vm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseRawRequest, type ParsedRequest } from "../request";
+import { NamingSandbox } from "../sandbox";
+
+// Runs the worker source in its own VM context, standing in for a Web Worker
+class VmWorker extends EventTarget {
+  private listeners: ((event: { data: unknown }) => void)[] = [];
+  private ready: Promise<void>;
+
+  constructor(url: string) {
+    super();
+    const context = createContext({
+      postMessage: (data: unknown) => this.dispatchEvent(new MessageEvent('message', { data: structuredClone(data) })),
+      addEventListener: (_type: string, listener: (event: { data: unknown }) => void) => this.listeners.push(listener)
+    });
+    runInContext('globalThis.self = globalThis;', context);
+    this.ready = (resolveObjectURL(url)?.text() ?? Promise.reject(new Error(`No blob at ${url}`)))
+      .then(source => { runInContext(source, context); });
+  }
+
+  postMessage(data: unknown) {
+    void this.ready.then(() => this.listeners.forEach(listener => listener({ data: structuredClone(data) })));
+  }
+
+  terminate() {
+    this.listeners = [];
+  }
+}
+
+function parse(raw: string): ParsedRequest {
+  const result = parseRawRequest(raw);
+  if (!result.ok) throw new Error(result.message);
+  return result.request;
+}
+
+const request = parse('GET /users/42 HTTP/1.1\r\nHost: api.test\r\n\r\n');
+
+describe('NamingSandbox', () => {
+  let sandbox: NamingSandbox;
+
+  beforeEach(() => {
+    vi.stubGlobal('Worker', VmWorker);
+    sandbox = new NamingSandbox(1000);
+  });
+
+  afterEach(() => {
+    sandbox.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('names requests with the user function', async () => {
+    expect(await sandbox.evaluate('return { name: `${method} ${normalizePath(path)}`, collection: host };', [request])).toEqual([
+      { ok: true, name: 'GET /users/{id}', collection: 'api.test' }
+    ]);
+  });
+
+  it('keeps the bindings of the worker out of reach of the user function', async () => {
+    const [result] = await sandbox.evaluate('return [typeof post, typeof listen, typeof postMessage, typeof fetch].join();', [request]);
+
+    expect(result).toEqual({ ok: true, name: 'undefined,undefined,undefined,undefined', collection: null });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  claimLegacyProject,
+  DEFAULT_PROFILE_ID,
+  getProjectStorage,
+  LEGACY_PROJECT_KEY,
+  loadStorage,
+  MAX_KNOWN_SESSIONS,
+  setProjectStorage,
+  STORAGE_VERSION
+} from "../storage";
+
+describe('loadStorage', () => {
+  it('returns the defaults when nothing is stored', () => {
+    const { data, problems, readOnly } = loadStorage(undefined);
+
+    expect(data.schemaVersion).toBe(STORAGE_VERSION);
+    expect(data.profiles.map(profile => profile.id)).toEqual([DEFAULT_PROFILE_ID]);
+    expect(data.projects).toEqual({});
+    expect(problems).toEqual([]);
+    expect(readOnly).toBe(false);
+  });
+
+  it('migrates unversioned data: naming settings into the default profile, session state into the legacy project', () => {
+    const { data, problems } = loadStorage({
+      customNamingFunction: 'return req.method;',
+      namingMode: 'function',
+      dedupeStrategy: 'hash',
+      pollingInterval: 5000,
+      knownSessions: ['1', '2'],
+      appliedNames: { 1: 'GET /a' },
+      renameHistory: [{ id: 'r1', sessionId: '1', oldName: '1', newName: 'GET /a', source: 'Default', runId: 3, timestamp: 10, revertedAt: null }]
+    });
+
+    expect(problems).toEqual([]);
+    expect(data.schemaVersion).toBe(STORAGE_VERSION);
+    expect(data.pollingInterval).toBe(5000);
+    expect(data.profiles).toHaveLength(1);
+    expect(data.profiles[0]).toMatchObject({ id: DEFAULT_PROFILE_ID, customNamingFunction: 'return req.method;', dedupeStrategy: 'hash' });
+    expect(data.projects[LEGACY_PROJECT_KEY]?.state).toMatchObject({
+      knownSessions: ['1', '2'],
+      appliedNames: { 1: 'GET /a' },
+      sessionLocks: {},
+      requestFingerprints: {}
+    });
+    expect(data.projects[LEGACY_PROJECT_KEY]?.state.renameHistory.map(record => record.runId)).toEqual([3]);
+  });
+
+  it('migrates version 1 session state into the legacy project, claimed by the first project opened', () => {
+    const { data } = loadStorage({ schemaVersion: 1, profiles: [{ id: 'p', name: 'Mine' }], activeProfileId: 'p', knownSessions: ['9'] });
+
+    expect(data.activeProfileId).toBe('p');
+    const claimed = claimLegacyProject(data, 'project-a') ?? data;
+    expect(claimed.projects).toEqual({ 'project-a': data.projects[LEGACY_PROJECT_KEY] });
+    expect(getProjectStorage(claimed, 'project-a').knownSessions).toEqual(['9']);
+    expect(claimLegacyProject(claimed, 'project-b')).toBeNull();
+  });
+
+  it('does not create a legacy project without session state', () => {
+    expect(loadStorage({ schemaVersion: 1, pollingInterval: 2000 }).data.projects).toEqual({});
+  });
+
+  it('resets invalid values to their default and reports them', () => {
+    const { data, problems } = loadStorage({
+      schemaVersion: STORAGE_VERSION,
+      pollingInterval: 'often',
+      renameConcurrency: 0,
+      profiles: [{ id: 'p', name: 'Kept' }, { name: 'No id' }],
+      projects: { a: { settings: { pollingInterval: 10 }, state: { knownSessions: ['1', 2] } } }
+    });
+
+    expect(data.pollingInterval).toBe(30000);
+    expect(data.renameConcurrency).toBe(4);
+    expect(data.profiles.map(profile => profile.id)).toEqual(['p']);
+    expect(data.projects.a?.settings).toEqual({});
+    expect(data.projects.a?.state.knownSessions).toEqual(['1']);
+    expect(problems).toHaveLength(5);
+  });
+
+  it('caps the known sessions to the most recent ones', () => {
+    const knownSessions = Array.from({ length: MAX_KNOWN_SESSIONS + 10 }, (_, index) => String(index));
+    const { data } = loadStorage({ schemaVersion: STORAGE_VERSION, projects: { a: { settings: {}, state: { knownSessions } } } });
+
+    expect(data.projects.a?.state.knownSessions).toHaveLength(MAX_KNOWN_SESSIONS);
+    expect(data.projects.a?.state.knownSessions[0]).toBe('10');
+  });
+
+  it('keeps data written by a newer version read-only', () => {
+    const { data, problems, readOnly } = loadStorage({ schemaVersion: STORAGE_VERSION + 1, pollingInterval: 4000, profiles: [{ id: 'p', name: 'Mine' }] });
+
+    expect(readOnly).toBe(true);
+    expect(data.schemaVersion).toBe(STORAGE_VERSION + 1);
+    expect(data.pollingInterval).toBe(4000);
+    expect(problems).toHaveLength(1);
+  });
+
+  it('falls back to the defaults for data that is not an object', () => {
+    expect(loadStorage([]).problems).toHaveLength(1);
+    expect(loadStorage({ schemaVersion: -1 }).data.schemaVersion).toBe(STORAGE_VERSION);
+  });
+});
+
+describe('setProjectStorage', () => {
+  it('writes overridden settings to the project and the others to the global defaults', () => {
+    const { data } = loadStorage({ schemaVersion: STORAGE_VERSION, projects: { a: { settings: { pollingInterval: 5000 }, state: {} } } });
+    const storage = { ...getProjectStorage(data, 'a'), pollingInterval: 6000, renameConcurrency: 8, knownSessions: ['1'] };
+    const updated = setProjectStorage(data, 'a', storage);
+
+    expect(updated.projects.a?.settings).toEqual({ pollingInterval: 6000 });
+    expect(updated.pollingInterval).toBe(30000);
+    expect(updated.renameConcurrency).toBe(8);
+    expect(updated.projects.a?.state.knownSessions).toEqual(['1']);
+    expect(getProjectStorage(updated, 'b').knownSessions).toEqual([]);
+  });
+});
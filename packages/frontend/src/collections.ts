@@ -0,0 +1,22 @@
+// Sorting new sessions into replay collections
+
+import type { ParsedRequest } from "./request";
+
+// 'naming': the collection comes from the matching rule or the { name, collection } returned by the naming function
+export type OrganizeMode = 'off' | 'host' | 'naming';
+
+export const ORGANIZE_MODES: { value: OrganizeMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'host', label: 'By host' },
+  { value: 'naming', label: 'From rules and naming function' }
+];
+
+export function sanitizeOrganizeMode(value: unknown): OrganizeMode {
+  return ORGANIZE_MODES.some(mode => mode.value === value) ? value as OrganizeMode : 'off';
+}
+
+// Host without its port, null when the request has none
+export function getHostCollectionName(request: ParsedRequest): string | null {
+  const host = request.host.trim().toLowerCase().replace(/:\d+$/, '');
+  return host || null;
+}
@@ -0,0 +1,158 @@
+// Commands of the plugin, exposed in the command palette, as shortcuts and in context menus
+//
+// The SDK does not tell which replay tab is selected. The current tab is the only open one,
+// or the open tab whose active request is the request the command was run on (the request
+// pane of a context menu, or the focused editor for the palette and shortcuts).
+
+import type { Caido, CommandContext } from "@caido/sdk-frontend";
+import { parseRawRequest } from "./request";
+
+export const COMMAND_IDS = {
+  renameCurrent: 'replay-tab-renamer.rename-current',
+  renameAll: 'replay-tab-renamer.rename-all',
+  lockCurrent: 'replay-tab-renamer.lock-current',
+  revertCurrent: 'replay-tab-renamer.revert-current',
+  sendToReplay: 'replay-tab-renamer.send-to-replay'
+} as const;
+
+const COMMAND_GROUP = 'Replay Tab Renamer';
+
+// Keys as understood by hotkeys-js
+const SHORTCUTS: Partial<Record<keyof typeof COMMAND_IDS, string[]>> = {
+  renameCurrent: ['ctrl', 'alt', 'r'],
+  renameAll: ['ctrl', 'alt', 'shift', 'r'],
+  lockCurrent: ['ctrl', 'alt', 'l'],
+  revertCurrent: ['ctrl', 'alt', 'z']
+};
+
+// Request a command was run on, rows of a request table can hold several
+export type CommandRequest =
+  | { kind: 'stored'; id: string }
+  | { kind: 'raw'; raw: string; host: string; port: number; isTls: boolean };
+
+export interface CommandActions {
+  renameCurrent(context: CommandContext): Promise<void>;
+  renameAll(): Promise<void>;
+  lockCurrent(context: CommandContext): Promise<void>;
+  revertCurrent(context: CommandContext): Promise<void>;
+  sendToReplay(requests: CommandRequest[]): Promise<void>;
+}
+
+// Replay sessions are created from a stored request, or from the raw request and its connection
+export function toRequestSource(request: CommandRequest) {
+  if (request.kind === 'stored') return { id: request.id };
+
+  // Blobs are sent base64 encoded, the request is encoded as UTF-8 first
+  let binary = '';
+  new TextEncoder().encode(request.raw).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return { raw: { raw: btoa(binary), connectionInfo: { host: request.host, port: request.port, isTLS: request.isTls } } };
+}
+
+export function getCommandRequests(context: CommandContext): CommandRequest[] {
+  switch (context.type) {
+    case 'RequestRowContext':
+      return context.requests.map(request => ({ kind: 'stored', id: request.id }));
+    case 'RequestContext':
+      // Requests edited but never sent have no id yet
+      return [context.request.id
+        ? { kind: 'stored', id: context.request.id }
+        : { kind: 'raw', raw: context.request.raw, host: context.request.host, port: context.request.port, isTls: context.request.isTls }];
+    case 'ResponseContext':
+      return [{ kind: 'stored', id: context.request.id }];
+    default:
+      return [];
+  }
+}
+
+// Raw request shown where the command was run, null when there is none
+export function getContextRaw(sdk: Caido, context: CommandContext): string | null {
+  if (context.type === 'RequestContext') return context.request.raw;
+  if (context.type !== 'BaseContext') return null;
+  try {
+    return sdk.window.getActiveEditor()?.getEditorView().state.doc.toString() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeRaw(raw: string): string {
+  return raw.replace(/\r\n?/g, '\n').trim();
+}
+
+// Request line and host, what an edited request usually keeps
+function getRequestKey(raw: string): string | null {
+  const parsed = parseRawRequest(raw);
+  return parsed.ok ? `${parsed.request.method} ${parsed.request.host}${parsed.request.path}` : null;
+}
+
+// Session of the current replay tab, null when it cannot be told apart from the other open tabs.
+// getRaw returns the decoded active request of a session, null when it has none.
+export async function findCurrentSession(
+  openSessionIds: string[],
+  contextRaw: string | null,
+  getRaw: (sessionId: string) => Promise<string | null>
+): Promise<string | null> {
+  if (openSessionIds.length === 1) return openSessionIds[0] as string;
+  if (openSessionIds.length === 0 || !contextRaw?.trim()) return null;
+
+  const raws = await Promise.all(openSessionIds.map(async sessionId => ({ sessionId, raw: await getRaw(sessionId) })));
+  const unique = (matches: { sessionId: string }[]) => matches.length === 1 ? (matches[0] as { sessionId: string }).sessionId : null;
+
+  const exact = normalizeRaw(contextRaw);
+  const exactMatch = unique(raws.filter(({ raw }) => raw !== null && normalizeRaw(raw) === exact));
+  if (exactMatch) return exactMatch;
+
+  // The request may have been edited since it was sent
+  const key = getRequestKey(contextRaw);
+  return key ? unique(raws.filter(({ raw }) => raw !== null && getRequestKey(raw) === key)) : null;
+}
+
+export function registerCommands(sdk: Caido, actions: CommandActions) {
+  const hasOpenTabs = () => sdk.replay.getTabs().length > 0;
+
+  sdk.commands.register(COMMAND_IDS.renameCurrent, {
+    name: 'Rename current replay tab',
+    group: COMMAND_GROUP,
+    run: context => actions.renameCurrent(context),
+    when: hasOpenTabs
+  });
+  sdk.commands.register(COMMAND_IDS.renameAll, {
+    name: 'Rename all replay tabs now',
+    group: COMMAND_GROUP,
+    run: () => actions.renameAll()
+  });
+  sdk.commands.register(COMMAND_IDS.lockCurrent, {
+    name: "Lock this tab's name",
+    group: COMMAND_GROUP,
+    run: context => actions.lockCurrent(context),
+    when: hasOpenTabs
+  });
+  sdk.commands.register(COMMAND_IDS.revertCurrent, {
+    name: "Revert this tab's name",
+    group: COMMAND_GROUP,
+    run: context => actions.revertCurrent(context),
+    when: hasOpenTabs
+  });
+  sdk.commands.register(COMMAND_IDS.sendToReplay, {
+    name: 'Send to Replay with auto-name',
+    group: COMMAND_GROUP,
+    run: context => actions.sendToReplay(getCommandRequests(context)),
+    when: context => getCommandRequests(context).length > 0
+  });
+
+  // Sending to Replay needs a request, it is only offered from menus
+  [COMMAND_IDS.renameCurrent, COMMAND_IDS.renameAll, COMMAND_IDS.lockCurrent, COMMAND_IDS.revertCurrent]
+    .forEach(commandId => sdk.commandPalette.register(commandId));
+
+  Object.entries(SHORTCUTS).forEach(([command, keys]) => {
+    sdk.shortcuts.register(COMMAND_IDS[command as keyof typeof COMMAND_IDS], keys);
+  });
+
+  sdk.menu.registerItem({ type: 'RequestRow', commandId: COMMAND_IDS.sendToReplay, leadingIcon: 'fas fa-tag' });
+  sdk.menu.registerItem({ type: 'Request', commandId: COMMAND_IDS.sendToReplay, leadingIcon: 'fas fa-tag' });
+  sdk.menu.registerItem({ type: 'Request', commandId: COMMAND_IDS.renameCurrent, leadingIcon: 'fas fa-tag' });
+  sdk.menu.registerItem({ type: 'Request', commandId: COMMAND_IDS.lockCurrent, leadingIcon: 'fas fa-lock' });
+  sdk.menu.registerItem({ type: 'Request', commandId: COMMAND_IDS.revertCurrent, leadingIcon: 'fas fa-rotate-left' });
+}
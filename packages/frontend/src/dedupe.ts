@@ -0,0 +1,110 @@
+// Collision handling, so that sessions hitting the same endpoint stay distinguishable
+
+import { hashString } from "./fingerprint";
+import type { ParsedRequest } from "./request";
+
+export type DedupeStrategy = 'off' | 'counter' | 'field' | 'hash';
+
+export const DEDUPE_STRATEGIES: { value: DedupeStrategy; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'counter', label: 'Numeric suffix (#2)' },
+  { value: 'field', label: 'Distinguishing field (id=42)' },
+  { value: 'hash', label: 'Short hash (~1a2b)' }
+];
+
+export function sanitizeDedupeStrategy(value: unknown): DedupeStrategy {
+  return DEDUPE_STRATEGIES.some(strategy => strategy.value === value) ? value as DedupeStrategy : 'counter';
+}
+
+export interface NameCandidate {
+  name: string;
+  request: ParsedRequest;
+}
+
+const MAX_FIELD_VALUE_LENGTH = 20;
+
+function toFieldValue(value: unknown): string | null {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    const text = String(value);
+    return text.length > MAX_FIELD_VALUE_LENGTH ? `${text.substring(0, MAX_FIELD_VALUE_LENGTH - 1)}…` : text;
+  }
+  return null;
+}
+
+// Query parameters then body fields, in request order. GraphQL variables count as body fields.
+export function getRequestFields(request: ParsedRequest): [string, string][] {
+  const fields: [string, string][] = Object.entries(request.query);
+  const { body } = request;
+
+  if (body.type === 'form') {
+    fields.push(...Object.entries(body.fields));
+  } else if (body.type === 'json' && body.json && typeof body.json === 'object' && !Array.isArray(body.json)) {
+    const json = body.json as Record<string, unknown>;
+    const variables = json.variables && typeof json.variables === 'object' ? json.variables as Record<string, unknown> : {};
+    for (const [key, value] of [...Object.entries(json), ...Object.entries(variables)]) {
+      const fieldValue = toFieldValue(value);
+      if (fieldValue !== null) {
+        fields.push([key, fieldValue]);
+      }
+    }
+  }
+
+  return fields;
+}
+
+// First field whose value differs from the other request, or the first field with a value
+// when there is nothing to compare with
+function getDistinguishingField(request: ParsedRequest, other: ParsedRequest | undefined): string | null {
+  const fields = getRequestFields(request);
+  const otherFields = other ? new Map(getRequestFields(other)) : null;
+  const field = otherFields
+    ? fields.find(([key, value]) => otherFields.get(key) !== value)
+    : fields.find(([, value]) => value !== '');
+  return field ? `${field[0]}=${field[1]}` : null;
+}
+
+function getRequestHash(request: ParsedRequest): string {
+  const bodyRaw = request.body.type === 'none' ? '' : request.body.raw;
+  return hashString(`${request.method} ${request.host}${request.path}\n${bodyRaw}`).substring(0, 4);
+}
+
+// Unique names for the candidates, index aligned. takenNames holds the names of the sessions
+// that are not being renamed, the first candidate of a free name keeps it unchanged.
+export function deduplicateNames(candidates: NameCandidate[], takenNames: Iterable<string>, strategy: DedupeStrategy): string[] {
+  if (strategy === 'off') {
+    return candidates.map(candidate => candidate.name);
+  }
+
+  const taken = new Set(takenNames);
+  const firstWithName = new Map<string, ParsedRequest>();
+
+  const withCounter = (name: string) => {
+    let counter = 2;
+    while (taken.has(`${name} #${counter}`)) counter++;
+    return `${name} #${counter}`;
+  };
+
+  return candidates.map(({ name, request }) => {
+    let unique = name;
+
+    if (taken.has(name)) {
+      if (strategy === 'field') {
+        const field = getDistinguishingField(request, firstWithName.get(name));
+        unique = field ? `${name} (${field})` : name;
+      } else if (strategy === 'hash') {
+        unique = `${name} ~${getRequestHash(request)}`;
+      }
+
+      // Identical requests cannot be told apart by their content, fall back to a counter
+      if (taken.has(unique)) {
+        unique = withCounter(unique);
+      }
+    }
+
+    if (!firstWithName.has(name)) {
+      firstWithName.set(name, request);
+    }
+    taken.add(unique);
+    return unique;
+  });
+}
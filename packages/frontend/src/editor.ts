@@ -0,0 +1,177 @@
+// Code editor for naming functions
+//
+// JavaScript highlighting, syntax errors reported while typing and completions for the
+// variables and helpers given to naming functions. The @codemirror packages are provided
+// by Caido at runtime, only the JavaScript language support is bundled.
+
+import { autocompletion, closeBrackets, closeBracketsKeymap, completionKeymap, type Completion, type CompletionContext, type CompletionResult } from "@codemirror/autocomplete";
+import { defaultKeymap, history, historyKeymap, indentWithTab } from "@codemirror/commands";
+import { javascript, javascriptLanguage } from "@codemirror/lang-javascript";
+import { bracketMatching, HighlightStyle, indentOnInput, syntaxHighlighting, syntaxTree } from "@codemirror/language";
+import { linter, lintGutter, lintKeymap, type Diagnostic } from "@codemirror/lint";
+import { EditorState } from "@codemirror/state";
+import { EditorView, highlightActiveLine, highlightActiveLineGutter, keymap, lineNumbers, placeholder } from "@codemirror/view";
+import { tags } from "@lezer/highlight";
+import { findForbiddenSyntax } from "./sandbox";
+
+// Members of the values given to naming functions, keyed by their access path
+const COMPLETIONS: Record<string, Completion[]> = {
+  '': [
+    { label: 'method', type: 'variable', detail: 'string', info: 'Request method, e.g. "POST"' },
+    { label: 'path', type: 'variable', detail: 'string', info: 'Request target, including the query string' },
+    { label: 'host', type: 'variable', detail: 'string', info: 'Host header' },
+    { label: 'req', type: 'variable', detail: 'object', info: 'Parsed request' },
+    { label: 'normalizePath', type: 'function', detail: '(path, { maxLength, ellipsis })', info: 'Replaces IDs, UUIDs, hashes, tokens and dates with placeholders and shortens long paths' }
+  ],
+  'req': [
+    { label: 'method', type: 'property', detail: 'string' },
+    { label: 'path', type: 'property', detail: 'string', info: 'Request target, including the query string' },
+    { label: 'pathname', type: 'property', detail: 'string', info: 'Path without query string and fragment' },
+    { label: 'host', type: 'property', detail: 'string' },
+    { label: 'httpVersion', type: 'property', detail: 'string', info: 'e.g. "HTTP/1.1", empty when missing' },
+    { label: 'target', type: 'property', detail: 'string', info: 'Request target as written on the request line' },
+    { label: 'targetForm', type: 'property', detail: "'origin' | 'absolute' | 'authority' | 'asterisk'" },
+    { label: 'websocket', type: 'property', detail: 'boolean', info: 'WebSocket upgrade handshake' },
+    { label: 'headers', type: 'property', detail: '{ name, value }[]', info: 'In request order, duplicates kept' },
+    { label: 'queryString', type: 'property', detail: 'string' },
+    { label: 'query', type: 'property', detail: 'Record<string, string>', info: 'First value of each parameter' },
+    { label: 'cookies', type: 'property', detail: 'Record<string, string>' },
+    { label: 'body', type: 'property', detail: 'object', info: 'Parsed body, see body.type' },
+    { label: 'operation', type: 'property', detail: 'object | null', info: 'GraphQL, JSON-RPC or SOAP operation' },
+    { label: 'response', type: 'property', detail: 'object | null', info: 'Response of the active entry, with response-aware names' }
+  ],
+  'req.body': [
+    { label: 'type', type: 'property', detail: "'none' | 'json' | 'form' | 'multipart' | 'text'" },
+    { label: 'raw', type: 'property', detail: 'string', info: 'Missing when type is none' },
+    { label: 'json', type: 'property', detail: 'unknown', info: 'When type is json' },
+    { label: 'fields', type: 'property', detail: 'Record<string, string>', info: 'When type is form' },
+    { label: 'fieldNames', type: 'property', detail: 'string[]', info: 'When type is multipart' }
+  ],
+  'req.response': [
+    { label: 'statusCode', type: 'property', detail: 'number' },
+    { label: 'length', type: 'property', detail: 'number', info: 'Bytes, headers included' },
+    { label: 'roundtripTime', type: 'property', detail: 'number', info: 'Milliseconds' },
+    { label: 'contentType', type: 'property', detail: 'string', info: 'e.g. "application/json", empty when missing' }
+  ],
+  'req.operation': [
+    { label: 'protocol', type: 'property', detail: "'graphql' | 'jsonrpc' | 'soap'" },
+    { label: 'name', type: 'property', detail: 'string', info: 'e.g. "updateUser"' },
+    { label: 'label', type: 'property', detail: 'string', info: 'e.g. "gql:updateUser"' }
+  ]
+};
+
+// Optional chaining is accepted, req?.operation?.name completes like req.operation.name
+function completeNamingContext(context: CompletionContext): CompletionResult | null {
+  const node = syntaxTree(context.state).resolveInner(context.pos, -1);
+  if (['String', 'TemplateString', 'LineComment', 'BlockComment'].includes(node.name)) return null;
+
+  const match = context.matchBefore(/(?:[\w$]+\??\.)*[\w$]*/);
+  if (!match || (match.from === match.to && !context.explicit)) return null;
+
+  const parts = match.text.split(/\??\./);
+  const word = parts.pop() ?? '';
+  const options = COMPLETIONS[parts.join('.')];
+  if (!options) return null;
+
+  return { from: match.to - word.length, options, validFor: /^[\w$]*$/ };
+}
+
+// Syntax errors come from the parse tree, nothing is compiled while typing
+function lintNamingFunction(view: EditorView): Diagnostic[] {
+  const code = view.state.doc.toString();
+  const diagnostics: Diagnostic[] = [];
+  let returns = false;
+
+  syntaxTree(view.state).iterate({
+    enter: node => {
+      if (node.name === 'ReturnStatement') returns = true;
+      if (node.type.isError) {
+        // Error nodes are often empty, the character after them is highlighted instead
+        const to = node.to > node.from ? node.to : Math.min(node.from + 1, code.length);
+        diagnostics.push({ from: node.from, to, severity: 'error', message: 'Syntax error' });
+      }
+    }
+  });
+
+  for (const forbidden of findForbiddenSyntax(code)) {
+    diagnostics.push({ ...forbidden, severity: 'error' });
+  }
+  if (!returns && code.trim()) {
+    diagnostics.push({ from: 0, to: 0, severity: 'warning', message: 'The function never returns a name, sessions keep their default name' });
+  }
+  return diagnostics;
+}
+
+const highlightStyle = HighlightStyle.define([
+  { tag: [tags.keyword, tags.controlKeyword, tags.definitionKeyword, tags.moduleKeyword], color: '#c678dd' },
+  { tag: [tags.string, tags.special(tags.string), tags.regexp], color: '#98c379' },
+  { tag: [tags.number, tags.bool, tags.null], color: '#d19a66' },
+  { tag: [tags.function(tags.variableName), tags.function(tags.propertyName)], color: '#61afef' },
+  { tag: tags.propertyName, color: '#e5c07b' },
+  { tag: [tags.lineComment, tags.blockComment], color: 'var(--p-surface-400)', fontStyle: 'italic' },
+  { tag: tags.invalid, color: 'var(--p-danger-color)' }
+]);
+
+// Follows the look of the surrounding inputs
+const theme = EditorView.theme({
+  '&': {
+    height: '260px',
+    backgroundColor: 'var(--p-surface-900)',
+    color: 'var(--p-surface-0)',
+    border: '1px solid var(--p-surface-600)',
+    borderRadius: '0.25rem',
+    fontSize: '0.875rem'
+  },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+  '.cm-content': { caretColor: 'var(--p-surface-0)' },
+  '.cm-cursor': { borderLeftColor: 'var(--p-surface-0)' },
+  '.cm-gutters': { backgroundColor: 'var(--p-surface-800)', color: 'var(--p-surface-400)', border: 'none' },
+  '.cm-activeLine, .cm-activeLineGutter': { backgroundColor: 'rgba(255, 255, 255, 0.04)' },
+  '&.cm-focused .cm-selectionBackground, .cm-selectionBackground': { backgroundColor: 'rgba(97, 175, 239, 0.25)' },
+  '.cm-tooltip': { backgroundColor: 'var(--p-surface-800)', border: '1px solid var(--p-surface-600)' }
+}, { dark: true });
+
+export interface NamingFunctionEditorOptions {
+  parent: HTMLElement;
+  code: string;
+  onChange: (code: string) => void;
+}
+
+export function createNamingFunctionEditor(options: NamingFunctionEditorOptions): EditorView {
+  return new EditorView({
+    parent: options.parent,
+    state: EditorState.create({
+      doc: options.code,
+      extensions: [
+        lineNumbers(),
+        highlightActiveLineGutter(),
+        highlightActiveLine(),
+        history(),
+        indentOnInput(),
+        bracketMatching(),
+        closeBrackets(),
+        javascript(),
+        javascriptLanguage.data.of({ autocomplete: completeNamingContext }),
+        autocompletion(),
+        linter(lintNamingFunction, { delay: 300 }),
+        lintGutter(),
+        syntaxHighlighting(highlightStyle),
+        placeholder('Enter custom naming function...'),
+        keymap.of([...closeBracketsKeymap, ...defaultKeymap, ...historyKeymap, ...completionKeymap, ...lintKeymap, indentWithTab]),
+        theme,
+        EditorView.updateListener.of(update => {
+          if (update.docChanged) options.onChange(update.state.doc.toString());
+        })
+      ]
+    })
+  });
+}
+
+// Replaces the content when the function changed elsewhere (profile switch, import, reset)
+export function setEditorCode(view: EditorView, code: string) {
+  const current = view.state.doc.toString();
+  if (current !== code) {
+    view.dispatch({ changes: { from: 0, to: current.length, insert: code } });
+  }
+}
@@ -0,0 +1,980 @@
+// Renaming engine: fetching, naming, renaming, reconciliation and revert, independent of the UI
+//
+// Caido is only reached through the storage, session source and renamer interfaces below,
+// the component in index.ts provides the SDK-backed implementations and renders the state.
+
+import { chunk, mapWithConcurrency } from "./batching";
+import { getHostCollectionName, type OrganizeMode } from "./collections";
+import { deduplicateNames, type DedupeStrategy } from "./dedupe";
+import { getRequestFingerprint } from "./fingerprint";
+import { toGraphQLClientError, type SessionDetailsReader, type SessionDetailsResult } from "./graphql";
+import { appendRenameRecords, createRenameRecord, selectRecordsToRevert, type RenameRecord, type RevertSelection } from "./history";
+import type { LogDetails } from "./log";
+import { createSessionLock, isCaidoDefaultName, isManuallyRenamed, type LockReason, type SessionLocks } from "./ownership";
+import { normalizePath, type PathFormat } from "./paths";
+import type { NamingMode } from "./profiles";
+import { decodeRawRequest, getDisplayMethod, parseRawRequest, type ParsedRequest } from "./request";
+import { applyResponseLabel, type ResponseLabel } from "./response";
+import { evaluateRules, type NamingRule } from "./rules";
+import { NamingSandbox } from "./sandbox";
+import { capKnownSessions, type PluginStorage } from "./storage";
+import { getCompiledTemplate, renderTemplate, usesSource, type CompiledTemplate } from "./template";
+
+// Minimal session info needed to process a session
+export type SessionRef = { id: string; name: string };
+
+// Session reported by an event, activeEntryId is set when the event carries the active entry
+export type SessionEvent = SessionRef & { activeEntryId?: string | null };
+
+export type SessionInfo = SessionRef & { collectionId: string | undefined };
+
+// Where the plugin state is kept
+export interface EngineStorage {
+  get(): Promise<PluginStorage>;
+  // Changes the state as stored at the time of the write, no other write comes in between
+  update(change: (storage: PluginStorage) => void): Promise<PluginStorage>;
+}
+
+// Read access to replay sessions
+export interface SessionSource {
+  getSessions(): SessionInfo[];
+  getCollections(): { id: string; name: string }[];
+  // One reader per pass over the sessions, so what it lists once is shared by every batch
+  createDetailsReader(): SessionDetailsReader;
+}
+
+// Write access to replay sessions, methods throw on failure
+export interface SessionRenamer {
+  renameSession(sessionId: string, name: string): Promise<void>;
+  createCollection(name: string): Promise<string | null>; // Id of the new collection
+  moveSession(sessionId: string, collectionId: string): Promise<void>;
+}
+
+// Settings read at the start of every step, so changes apply to the next batch
+export interface EngineConfig {
+  namingRules: NamingRule[];
+  namingMode: NamingMode;
+  namingFunction: string; // Evaluated in the sandbox in 'function' mode, empty for none
+  namingTemplate: CompiledTemplate | null; // Used in 'template' mode, null when invalid
+  pathFormat: PathFormat;
+  dedupeStrategy: DedupeStrategy;
+  responseLabel: ResponseLabel; // Responses are fetched, followed and shown in names when enabled
+  organizeMode: OrganizeMode;
+  autoFollowEdits: boolean;
+  detailsBatchSize: number; // Sessions fetched per step, between cancellation checks
+  renameConcurrency: number;
+  functionTimeout: number;
+}
+
+export interface EngineDependencies {
+  storage: EngineStorage;
+  sessions: SessionSource;
+  renamer: SessionRenamer;
+  getConfig: () => EngineConfig;
+  log?: (message: string, details?: LogDetails) => void;
+  onStorageChange?: (storage: PluginStorage) => void; // After every save made by the engine
+  onSessionNames?: (names: Record<string, string>) => void; // Sessions renamed or reverted
+  onRunChange?: (activeRunId: number | null, lastRun: RunResult | null) => void;
+}
+
+// A reconciliation or event run, cancelled when the user stops or reconfigures polling
+export interface RunToken {
+  id: number; // Set once the run starts, above every run id of the rename history
+  cancelled: boolean;
+}
+
+export type RunResult = { id: number; durationMs: number; cancelled: boolean };
+
+// Outcome of renameSessions, sessions skipped because of a cancellation are not in processedIds.
+// failedIds could not be fetched or renamed, they must stay unknown to be retried by the next run.
+export type RenameSummary = { renamedCount: number; processedIds: Set<string>; failedIds: Set<string>; cancelled: boolean };
+
+// Session counts after a run, for display
+export type SessionCounts = { total: number; known: number; new: number };
+
+// A session considered for renaming, see planRenames
+export type RenamePlanItem = {
+  session: SessionRef;
+  currentName: string;
+  request: ParsedRequest | null;
+  newName: string | null; // Set for 'rename' and 'unchanged' items
+  source: string; // What produced the name, e.g. "Rule 2"
+  fingerprint: string | null;
+  collection: string | null; // Collection the session belongs in, null to leave it where it is
+  status: RenamePlanStatus;
+  requestChanged?: boolean; // Followed session whose request was edited
+  adoptedName?: boolean; // Known session without an applied name, its current name is taken as the applied one
+  error?: string;
+};
+
+export type RenamePlanStatus =
+  | 'rename'
+  | 'unchanged' // Already has the proposed name
+  | 'locked'
+  | 'manual' // Renamed by hand, locked once the plan is applied
+  | 'same-request' // Followed session whose request did not change
+  | 'failed'
+  | 'missing'
+  | 'unparsable';
+
+export type RenamePlan = { items: RenamePlanItem[]; batchCount: number; cancelled: boolean };
+
+export interface RenameOptions {
+  followedIds?: Set<string>; // Known sessions renamed only when their request changed
+  placedIds?: Set<string>; // Sessions left in their collection, the followed ones by default
+  replaceManual?: boolean; // Rename sessions named by hand instead of locking them, for explicit requests
+}
+
+export interface ReconcileOptions {
+  // Also look for edits in every known session, when auto-follow is on. Session events report
+  // the edited ones otherwise, see processSessions. Defaults to true.
+  followEdits?: boolean;
+}
+
+// Generated name and what produced it (rule, template, function or default).
+// collection is set when a rule or the naming function chose one.
+export type NamingOutcome = { name: string; source: string; collection?: string | null; error?: string };
+
+// Per-session state used to decide whether the plugin may rename a session
+export type SessionOwnership = Pick<PluginStorage, 'appliedNames' | 'sessionLocks' | 'requestFingerprints'>;
+
+export interface RenamingEngine {
+  // Runs never overlap: they are queued and can be cancelled
+  runExclusive(label: string, task: (run: RunToken) => Promise<void>): Promise<void>;
+  cancelRuns(): void;
+  hasPendingRuns(): boolean;
+  getActiveRunId(): number | null;
+
+  // Full check of every session, null when it failed. sessions is the list once renamed.
+  reconcile(run: RunToken, options?: ReconcileOptions): Promise<(SessionCounts & { sessions: SessionRef[] }) | null>;
+  // Sessions reported by events, only new and followed ones are processed
+  processSessions(sessions: SessionEvent[], run: RunToken): Promise<SessionCounts | null>;
+  // Sessions asked for by the user (commands, menus), renamed whether known or not. Locked sessions are left alone.
+  renameNow(sessions: SessionRef[], run: RunToken, options?: Pick<RenameOptions, 'replaceManual'>): Promise<RenameSummary | null>;
+  planRenames(sessions: SessionRef[], run: RunToken, options?: RenameOptions): Promise<RenamePlan>;
+  // Applies previewed items whose session still has the name it had when planned
+  applyPlan(items: RenamePlanItem[], run: RunToken): Promise<Set<string>>;
+  revertRenames(selection: RevertSelection, run: RunToken): Promise<void>;
+
+  getKnownSessions(): Promise<Set<string>>;
+  clearKnownSessions(): Promise<void>;
+  getSessionOwnership(): Promise<SessionOwnership>;
+  setSessionLocked(session: SessionRef, locked: boolean, reason?: LockReason): Promise<void>;
+  dispose(): void;
+}
+
+export function createRenamingEngine(deps: EngineDependencies): RenamingEngine {
+  const { storage: store, sessions: source, renamer, getConfig } = deps;
+  const addLog = (message: string, details: LogDetails = {}) => deps.log?.(message, details);
+
+  // Worker running the custom naming function, created on first use
+  let sandbox: NamingSandbox | null = null;
+
+  // Runs are chained on runQueue and can be cancelled through their token
+  let runQueue: Promise<void> = Promise.resolve();
+  let nextRunId = 1;
+  const pendingRuns = new Set<RunToken>();
+  let activeRunId: number | null = null;
+  let lastRun: RunResult | null = null;
+
+  // Active entry of each session as last reported by events, for response-aware names
+  const activeEntryIds = new Map<string, string | null>();
+
+  async function getStorage(): Promise<PluginStorage> {
+    return store.get();
+  }
+
+  async function updateStorage(change: (storage: PluginStorage) => void) {
+    const storage = await store.update(change);
+    deps.onStorageChange?.(storage);
+  }
+
+  async function getKnownSessions(): Promise<Set<string>> {
+    const storage = await getStorage();
+    return new Set(storage.knownSessions);
+  }
+
+  async function saveKnownSessions(sessions: Set<string>) {
+    await updateStorage(storage => {
+      storage.knownSessions = capKnownSessions(Array.from(sessions));
+    });
+  }
+
+  async function clearKnownSessions() {
+    await updateStorage(storage => {
+      storage.knownSessions = [];
+    });
+  }
+
+  async function addRenameRecords(records: RenameRecord[]) {
+    if (records.length === 0) return;
+    await updateStorage(storage => {
+      storage.renameHistory = appendRenameRecords(storage.renameHistory, records);
+    });
+  }
+
+  async function markRecordsReverted(recordIds: Set<string>) {
+    const revertedAt = Date.now();
+    await updateStorage(storage => {
+      storage.renameHistory = storage.renameHistory.map(record =>
+        recordIds.has(record.id) ? { ...record, revertedAt } : record
+      );
+    });
+  }
+
+  async function getSessionOwnership(): Promise<SessionOwnership> {
+    const storage = await getStorage();
+    return { appliedNames: storage.appliedNames, sessionLocks: storage.sessionLocks, requestFingerprints: storage.requestFingerprints };
+  }
+
+  // Merges the given entries into the stored ones
+  async function saveSessionOwnership(updates: Partial<SessionOwnership>) {
+    await updateStorage(storage => {
+      storage.appliedNames = { ...storage.appliedNames, ...updates.appliedNames };
+      storage.sessionLocks = { ...storage.sessionLocks, ...updates.sessionLocks };
+      storage.requestFingerprints = { ...storage.requestFingerprints, ...updates.requestFingerprints };
+    });
+  }
+
+  // Unlocking adopts the current name as the plugin's own, it would be detected as a manual rename otherwise
+  async function setSessionLocked(session: SessionRef, locked: boolean, reason: LockReason = 'user') {
+    await updateStorage(storage => {
+      if (locked) {
+        storage.sessionLocks = { ...storage.sessionLocks, [session.id]: createSessionLock(reason, session.name) };
+      } else {
+        storage.sessionLocks = { ...storage.sessionLocks };
+        delete storage.sessionLocks[session.id];
+        storage.appliedNames = { ...storage.appliedNames, [session.id]: session.name };
+      }
+    });
+  }
+
+  // Forget sessions that were deleted in Caido
+  async function pruneSessionOwnership(currentSessionIds: Set<string>) {
+    const keep = <T>(map: Record<string, T>) => Object.fromEntries(Object.entries(map).filter(([id]) => currentSessionIds.has(id)));
+    await updateStorage(storage => {
+      storage.appliedNames = keep(storage.appliedNames);
+      storage.sessionLocks = keep(storage.sessionLocks);
+      storage.requestFingerprints = keep(storage.requestFingerprints);
+    });
+  }
+
+  function getSandbox(): NamingSandbox {
+    const { functionTimeout, pathFormat } = getConfig();
+    if (!sandbox) {
+      sandbox = new NamingSandbox(functionTimeout);
+    }
+    sandbox.timeoutMs = functionTimeout;
+    sandbox.pathFormat = pathFormat;
+    return sandbox;
+  }
+
+  // Built-in naming, used when nothing else produced a name
+  function getDefaultTabName(request: ParsedRequest): string {
+    const method = getDisplayMethod(request);
+    const { path } = request;
+
+    if (request.operation) {
+      return `${method} ${request.operation.label}`;
+    }
+
+    return `${method} ${normalizePath(path, getConfig().pathFormat)}`;
+  }
+
+  // Names for a batch of requests, index aligned with the input.
+  // error is set when the custom function failed or timed out for that request.
+  async function generateTabNames(requests: ParsedRequest[]): Promise<NamingOutcome[]> {
+    const config = getConfig();
+    const outcomes: (NamingOutcome | null)[] = requests.map(request => {
+      // Rules are checked first, first match wins
+      const ruleMatch = evaluateRules(config.namingRules, request, (rule, error) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        addLog(`⚠️ Rule ${config.namingRules.indexOf(rule) + 1} skipped: ${errorMessage}`, { level: 'warn', event: 'naming', error: errorMessage });
+      });
+      if (ruleMatch) {
+        return { name: ruleMatch.name, source: `Rule ${config.namingRules.indexOf(ruleMatch.rule) + 1}`, collection: ruleMatch.collection };
+      }
+
+      if (config.namingMode === 'template' && config.namingTemplate) {
+        const name = renderTemplate(config.namingTemplate, request);
+        return name
+          ? { name, source: 'Template' }
+          : { name: getDefaultTabName(request), source: 'Default', error: 'Template produced an empty name' };
+      }
+
+      return null;
+    });
+
+    // Remaining requests go through the custom function, evaluated in the sandbox
+    const customFunction = config.namingMode === 'function' ? config.namingFunction : '';
+    const pendingIndexes = outcomes.flatMap((outcome, index) => outcome ? [] : [index]);
+
+    if (customFunction.trim() && pendingIndexes.length > 0) {
+      const pendingRequests = pendingIndexes.map(index => requests[index] as ParsedRequest);
+      const results = await getSandbox().evaluate(customFunction, pendingRequests);
+
+      results.forEach((result, i) => {
+        const index = pendingIndexes[i] as number;
+        const request = requests[index] as ParsedRequest;
+        if (result.ok) {
+          outcomes[index] = result.name
+            ? { name: result.name, source: 'Function', collection: result.collection }
+            : { name: getDefaultTabName(request), source: 'Default', collection: result.collection };
+        } else {
+          const error = result.timedOut ? `Custom function ${result.error.toLowerCase()}` : `Custom function error: ${result.error}`;
+          outcomes[index] = { name: getDefaultTabName(request), source: 'Default', error };
+        }
+      });
+    }
+
+    return outcomes.map((outcome, index) => {
+      const request = requests[index] as ParsedRequest;
+      const named = outcome ?? { name: getDefaultTabName(request), source: 'Default' };
+      return { ...named, name: addResponseLabel(named.name, request) };
+    });
+  }
+
+  // The label is added to every name, whatever produced it. Sessions without a response keep the bare name.
+  function addResponseLabel(name: string, request: ParsedRequest): string {
+    const { responseLabel } = getConfig();
+    if (!responseLabel.enabled || !responseLabel.format.trim() || !request.response) return name;
+
+    try {
+      return applyResponseLabel(name, renderTemplate(getCompiledTemplate(responseLabel.format), request), responseLabel.position);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      addLog(`⚠️ Response label skipped: ${errorMessage}`, { level: 'warn', event: 'naming', error: errorMessage });
+      return name;
+    }
+  }
+
+  // Fetch the active entry of a batch of sessions, a failure only affects its own session
+  async function getSessionDetailsBatch(reader: SessionDetailsReader, sessionIds: string[]): Promise<Map<string, SessionDetailsResult>> {
+    if (sessionIds.length === 0) return new Map();
+
+    const { renameConcurrency, responseLabel } = getConfig();
+    // Reading the content type downloads every response, it is only done when the label shows it
+    const withContentType = responseLabel.enabled && usesSource(responseLabel.format, 'mime');
+    try {
+      return await reader.getSessionDetailsBatch(sessionIds, renameConcurrency, { withResponse: responseLabel.enabled, withContentType });
+    } catch (thrown) {
+      const error = toGraphQLClientError(thrown);
+      return new Map(sessionIds.map(id => [id, { status: 'failed', error }]));
+    }
+  }
+
+  // Fetch, parse and name the given sessions without changing anything, stops fetching once the run is cancelled.
+  // Followed sessions are known ones, only renamed when their request changed since they were named.
+  async function planRenames(sessions: SessionRef[], run: RunToken, options: RenameOptions = {}): Promise<RenamePlan> {
+    const { followedIds = new Set<string>(), replaceManual = false } = options;
+    const items: RenamePlanItem[] = [];
+    if (sessions.length === 0) return { items, batchCount: 0, cancelled: run.cancelled };
+
+    const ownership = await getSessionOwnership();
+    const knownSessions = await getKnownSessions();
+    const batches = chunk(sessions, getConfig().detailsBatchSize);
+    const reader = source.createDetailsReader();
+    let batchCount = 0;
+    // Set once authentication failed even after a retry, later batches would fail the same way
+    let authError: string | null = null;
+
+    // Fetch and parse every session first, naming is then evaluated as one batch
+    for (const batch of batches) {
+      if (run.cancelled) break;
+
+      let details = new Map<string, SessionDetailsResult>();
+      if (authError === null) {
+        batchCount++;
+        details = await getSessionDetailsBatch(reader, batch.map(session => session.id));
+      }
+
+      for (const session of batch) {
+        const result = details.get(session.id);
+        const item: RenamePlanItem = {
+          session,
+          currentName: session.name,
+          request: null,
+          newName: null,
+          source: '',
+          fingerprint: null,
+          collection: null,
+          status: 'failed'
+        };
+        items.push(item);
+
+        if (!result || result.status === 'failed') {
+          item.error = result ? result.error.message : `Not fetched: ${authError ?? 'unknown error'}`;
+          if (result?.error.kind === 'auth') authError = result.error.message;
+          continue;
+        }
+        if (result.status === 'missing') {
+          item.status = 'missing';
+          item.error = 'No active entry';
+          continue;
+        }
+
+        try {
+          item.currentName = result.entry.session.name || session.name;
+
+          if (ownership.sessionLocks[session.id]) {
+            item.status = 'locked';
+            continue;
+          }
+          const appliedName = ownership.appliedNames[session.id];
+          // Sessions named before applied names were stored have none, like a missing fingerprint
+          // their current name becomes the reference instead of counting as a manual rename
+          if (appliedName === undefined && knownSessions.has(session.id)) {
+            item.adoptedName = true;
+          } else if (!replaceManual && isManuallyRenamed(item.currentName, appliedName)) {
+            item.status = 'manual';
+            continue;
+          }
+
+          const parsed = parseRawRequest(decodeRawRequest(result.entry.raw));
+          if (!parsed.ok) {
+            item.status = 'unparsable';
+            item.error = parsed.message;
+            continue;
+          }
+          item.request = { ...parsed.request, response: result.entry.response ?? null };
+
+          item.fingerprint = getRequestFingerprint(item.request);
+          if (followedIds.has(session.id)) {
+            const previous = ownership.requestFingerprints[session.id];
+            // Without a previous fingerprint the session was named before edits were followed,
+            // its current request becomes the reference
+            if (previous === undefined || previous === item.fingerprint) {
+              item.status = 'same-request';
+              continue;
+            }
+            item.requestChanged = true;
+          }
+          item.status = 'rename';
+
+        } catch (error) {
+          item.status = 'unparsable';
+          item.error = String(error);
+        }
+      }
+    }
+
+    if (run.cancelled) {
+      return { items, batchCount, cancelled: true };
+    }
+
+    const config = getConfig();
+    const named = items.filter(item => item.status === 'rename');
+    const outcomes = await generateTabNames(named.map(item => item.request as ParsedRequest));
+
+    // Names of the other sessions are taken, including the ones named in earlier runs
+    const namedIds = new Set(named.map(item => item.session.id));
+    const takenNames = source.getSessions()
+      .filter(session => !namedIds.has(session.id))
+      .map(session => session.name);
+    const uniqueNames = deduplicateNames(
+      named.map((item, index) => ({ name: (outcomes[index] as NamingOutcome).name, request: item.request as ParsedRequest })),
+      takenNames,
+      config.dedupeStrategy
+    );
+
+    named.forEach((item, index) => {
+      const { source: nameSource, collection, error } = outcomes[index] as NamingOutcome;
+      item.newName = uniqueNames[index] as string;
+      item.source = nameSource;
+      item.error = error;
+      if (config.organizeMode === 'host') {
+        item.collection = getHostCollectionName(item.request as ParsedRequest);
+      } else if (config.organizeMode === 'naming') {
+        item.collection = collection ?? null;
+      }
+      if (item.currentName === item.newName) {
+        item.status = 'unchanged';
+      }
+    });
+
+    return { items, batchCount, cancelled: run.cancelled };
+  }
+
+  // Rename the planned sessions, a few at a time to avoid overwhelming Caido.
+  // Returns the sessions actually renamed, the ones skipped because of a cancellation and the ones
+  // whose rename failed.
+  async function applyRenames(items: RenamePlanItem[], run: RunToken): Promise<{ renamedIds: Set<string>; skippedIds: Set<string>; failedIds: Set<string> }> {
+    const renamedIds = new Set<string>();
+    const skippedIds = new Set<string>();
+    const failedIds = new Set<string>();
+
+    const renameResults = await mapWithConcurrency(items, getConfig().renameConcurrency, async ({ session, currentName, newName, request }) => {
+      if (run.cancelled || newName === null) {
+        skippedIds.add(session.id);
+        return false;
+      }
+
+      await renamer.renameSession(session.id, newName);
+
+      addLog(`🏷️ ${session.id} → "${newName}"`, { event: 'rename', sessionId: session.id, oldName: currentName, newName });
+      if (request) {
+        addLog(`   📍 ${request.method} ${request.host}${request.path}`, { level: 'debug', event: 'rename', sessionId: session.id });
+      }
+      return true;
+    });
+
+    const records: RenameRecord[] = [];
+    const appliedNames: Record<string, string> = {};
+    const fingerprints: Record<string, string> = {};
+    renameResults.forEach((result, index) => {
+      const item = items[index];
+      if (!item) return;
+
+      if (!result.ok) {
+        failedIds.add(item.session.id);
+        addLog(`❌ Error ${item.session.id}: ${result.error}`, { level: 'error', event: 'rename', sessionId: item.session.id, oldName: item.currentName, newName: item.newName, error: String(result.error) });
+      } else if (result.value && item.newName !== null) {
+        renamedIds.add(item.session.id);
+        appliedNames[item.session.id] = item.newName;
+        // Only kept once the session is named after it, failed renames are retried on the next change
+        if (item.fingerprint) {
+          fingerprints[item.session.id] = item.fingerprint;
+        }
+        records.push(createRenameRecord({
+          sessionId: item.session.id,
+          oldName: item.currentName,
+          newName: item.newName,
+          source: item.source,
+          runId: run.id
+        }));
+      }
+    });
+
+    await addRenameRecords(records);
+    await saveSessionOwnership({ appliedNames, requestFingerprints: fingerprints });
+    deps.onSessionNames?.(appliedNames);
+
+    return { renamedIds, skippedIds, failedIds };
+  }
+
+  // Move the planned sessions into their collection, creating the collections that do not exist yet
+  async function organizeSessions(items: RenamePlanItem[], run: RunToken) {
+    const collectionIds = new Map(source.getCollections().map(collection => [collection.name, collection.id]));
+    const currentCollections = new Map(source.getSessions().map(session => [session.id, session.collectionId]));
+    const moves = items.filter(item => item.collection && currentCollections.get(item.session.id) !== collectionIds.get(item.collection));
+    if (moves.length === 0) return;
+
+    // Created one at a time, sessions going to the same new collection share it
+    for (const name of new Set(moves.map(item => item.collection as string))) {
+      if (run.cancelled) return;
+      if (collectionIds.has(name)) continue;
+
+      try {
+        const collectionId = await renamer.createCollection(name);
+        if (collectionId) {
+          collectionIds.set(name, collectionId);
+          addLog(`📁 Collection "${name}" created`, { event: 'organize' });
+        }
+      } catch (error) {
+        addLog(`❌ Error creating collection "${name}": ${error}`, { level: 'error', event: 'organize', error: String(error) });
+      }
+    }
+
+    const results = await mapWithConcurrency(moves, getConfig().renameConcurrency, async item => {
+      const collectionId = collectionIds.get(item.collection as string);
+      if (run.cancelled || !collectionId) return false;
+
+      await renamer.moveSession(item.session.id, collectionId);
+      return true;
+    });
+
+    let movedCount = 0;
+    results.forEach((result, index) => {
+      const item = moves[index];
+      if (!item) return;
+      if (!result.ok) {
+        addLog(`❌ Error moving ${item.session.id} to "${item.collection}": ${result.error}`, { level: 'error', event: 'organize', sessionId: item.session.id, error: String(result.error) });
+      } else if (result.value) {
+        movedCount++;
+      }
+    });
+    if (movedCount > 0) {
+      addLog(`📁 ${movedCount} session(s) moved into collections`, { event: 'organize' });
+    }
+  }
+
+  // Plan and apply the renames of the given sessions, see planRenames
+  async function renameSessions(sessions: SessionRef[], run: RunToken, options: RenameOptions = {}): Promise<RenameSummary> {
+    const { followedIds = new Set<string>(), placedIds = followedIds } = options;
+    const processedIds = new Set<string>();
+    const failedIds = new Set<string>();
+    if (sessions.length === 0) return { renamedCount: 0, processedIds, failedIds, cancelled: run.cancelled };
+
+    addLog(`🆕 Fetching details of ${sessions.length} session(s)...`, { event: 'fetch' });
+    const { items, batchCount, cancelled } = await planRenames(sessions, run, options);
+
+    const newLocks: SessionLocks = {};
+    const appliedNames: Record<string, string> = {};
+    const fingerprints: Record<string, string> = {};
+    let missingCount = 0;
+    let failedCount = 0;
+
+    for (const item of items) {
+      const { session } = item;
+      processedIds.add(session.id);
+      if (item.adoptedName) {
+        appliedNames[session.id] = item.currentName;
+      }
+
+      switch (item.status) {
+        case 'failed':
+          failedCount++;
+          processedIds.delete(session.id);
+          failedIds.add(session.id);
+          addLog(`⚠️ No details for ${session.id}, retried next run: ${item.error}`, { level: 'warn', event: 'fetch', sessionId: session.id, error: item.error ?? null });
+          break;
+        case 'missing':
+          missingCount++;
+          // Known from now on, a later name other than Caido's is then a manual rename
+          if (isCaidoDefaultName(item.currentName)) appliedNames[session.id] = item.currentName;
+          addLog(`⚠️ No active entry for ${session.id}`, { level: 'warn', event: 'fetch', sessionId: session.id });
+          break;
+        case 'unparsable':
+          if (isCaidoDefaultName(item.currentName)) appliedNames[session.id] = item.currentName;
+          addLog(`⚠️ Cannot parse ${session.id}: ${item.error}`, { level: 'warn', event: 'fetch', sessionId: session.id, error: item.error ?? null });
+          break;
+        case 'locked':
+          addLog(`🔒 ${session.id} is locked, left as "${item.currentName}"`, { event: 'lock', sessionId: session.id, oldName: item.currentName });
+          break;
+        case 'manual':
+          newLocks[session.id] = createSessionLock('renamed', item.currentName);
+          addLog(`🔒 ${session.id} was renamed by hand to "${item.currentName}", now locked`, { event: 'lock', sessionId: session.id, oldName: item.currentName });
+          break;
+        case 'same-request':
+          fingerprints[session.id] = item.fingerprint as string;
+          break;
+        case 'unchanged':
+        case 'rename':
+          if (cancelled) {
+            processedIds.delete(session.id);
+            break;
+          }
+          if (item.requestChanged) {
+            addLog(item.request?.response
+              ? `✏️ New entry or request edit in ${session.id}`
+              : `✏️ Request of ${session.id} changed`, { event: 'rename', sessionId: session.id });
+          }
+          if (item.error) {
+            addLog(`⚠️ ${session.id}: ${item.error}, using default function`, { level: 'warn', event: 'naming', sessionId: session.id, error: item.error });
+          }
+          if (item.status === 'unchanged') {
+            appliedNames[session.id] = item.currentName;
+            fingerprints[session.id] = item.fingerprint as string;
+            addLog(`✅ ${session.id} already correctly named`, { level: 'debug', event: 'rename', sessionId: session.id, oldName: item.currentName });
+          }
+          break;
+      }
+    }
+
+    await saveSessionOwnership({ sessionLocks: newLocks, appliedNames, requestFingerprints: fingerprints });
+
+    if (cancelled) {
+      return { renamedCount: 0, processedIds, failedIds, cancelled: true };
+    }
+
+    const fetchedCount = items.length - missingCount - failedCount;
+    addLog(`📦 ${fetchedCount} fetched, ${missingCount} without entry, ${failedCount} failed (${batchCount} step(s))`, { event: 'fetch' });
+
+    const { renamedIds, skippedIds, failedIds: renameFailedIds } = await applyRenames(items.filter(item => item.status === 'rename'), run);
+    // Skipped and failed renames stay unknown, the next run tries them again
+    const retriedIds = new Set([...skippedIds, ...renameFailedIds]);
+    retriedIds.forEach(id => {
+      processedIds.delete(id);
+      failedIds.add(id);
+    });
+
+    // Only new sessions are organized, a session moved by hand stays where it was put
+    if (getConfig().organizeMode !== 'off') {
+      await organizeSessions(items.filter(item =>
+        (item.status === 'rename' || item.status === 'unchanged') && !placedIds.has(item.session.id) && !retriedIds.has(item.session.id)
+      ), run);
+    }
+
+    return { renamedCount: renamedIds.size, processedIds, failedIds, cancelled: run.cancelled };
+  }
+
+  // The counter restarts with every load, it skips the ids recorded in the rename history so that
+  // reverting a run never picks up the renames of an earlier load
+  async function takeRunId(): Promise<number> {
+    try {
+      const { renameHistory } = await getStorage();
+      nextRunId = renameHistory.reduce((next, record) => Math.max(next, record.runId + 1), nextRunId);
+    } catch (error) {
+      console.error('Error takeRunId:', error);
+    }
+    return nextRunId++;
+  }
+
+  // Queue a run after the current one, the returned promise settles once it has finished
+  function runExclusive(label: string, task: (run: RunToken) => Promise<void>): Promise<void> {
+    const run: RunToken = { id: 0, cancelled: false };
+    pendingRuns.add(run);
+
+    const result = runQueue.then(async () => {
+      if (run.cancelled) {
+        pendingRuns.delete(run);
+        return;
+      }
+
+      run.id = await takeRunId();
+      activeRunId = run.id;
+      deps.onRunChange?.(activeRunId, lastRun);
+      const startedAt = performance.now();
+      try {
+        await task(run);
+      } finally {
+        const durationMs = Math.round(performance.now() - startedAt);
+        lastRun = { id: run.id, durationMs, cancelled: run.cancelled };
+        activeRunId = null;
+        pendingRuns.delete(run);
+        deps.onRunChange?.(activeRunId, lastRun);
+        if (run.cancelled) {
+          addLog(`🛑 Run #${run.id} (${label}) cancelled after ${durationMs}ms`, { level: 'warn', event: 'run' });
+        }
+      }
+    });
+
+    runQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  function cancelRuns() {
+    pendingRuns.forEach(run => {
+      run.cancelled = true;
+    });
+  }
+
+  // Known sessions whose edits are followed, none unless auto-follow is enabled
+  async function getFollowedSessions(sessions: SessionRef[], knownSessions: Set<string>): Promise<SessionRef[]> {
+    if (!getConfig().autoFollowEdits) return [];
+    const { sessionLocks: locks } = await getSessionOwnership();
+    return sessions.filter(session => knownSessions.has(session.id) && !locks[session.id]);
+  }
+
+  // With response-aware names, known sessions whose events report another active entry (a request
+  // was sent) are followed too. A session seen for the first time since loading counts as changed,
+  // its fingerprint tells whether it really did.
+  async function getSessionsWithNewEntries(sessions: SessionEvent[], knownSessions: Set<string>): Promise<SessionRef[]> {
+    const changed = sessions.filter(session =>
+      session.activeEntryId !== undefined
+      && (!activeEntryIds.has(session.id) || activeEntryIds.get(session.id) !== session.activeEntryId)
+    );
+    sessions.forEach(session => {
+      if (session.activeEntryId !== undefined) activeEntryIds.set(session.id, session.activeEntryId);
+    });
+
+    if (!getConfig().responseLabel.enabled) return [];
+    const { sessionLocks: locks } = await getSessionOwnership();
+    return changed
+      .filter(session => session.activeEntryId !== null && knownSessions.has(session.id) && !locks[session.id])
+      .map(({ id, name }) => ({ id, name }));
+  }
+
+  function getSessionRefs(): SessionRef[] {
+    return source.getSessions().map(({ id, name }) => ({ id, name }));
+  }
+
+  async function reconcile(run: RunToken, options: ReconcileOptions = {}): Promise<(SessionCounts & { sessions: SessionRef[] }) | null> {
+    const { followEdits = true } = options;
+    try {
+      addLog('🔍 Checking sessions...', { level: 'debug', event: 'run' });
+
+      const sessions = getSessionRefs();
+
+      if (sessions.length === 0) {
+        addLog('ℹ️ No sessions found', { event: 'run' });
+        return { sessions, total: 0, known: 0, new: 0 };
+      }
+
+      const knownSessions = await getKnownSessions();
+      const currentSessionIds = new Set(sessions.map(s => s.id));
+
+      // Filter out sessions that are already known (already processed)
+      const newSessions = sessions.filter(session => !knownSessions.has(session.id));
+      const followedSessions = followEdits ? await getFollowedSessions(sessions, knownSessions) : [];
+
+      addLog(`📊 ${sessions.length} total, ${knownSessions.size} known, ${newSessions.length} new`, { event: 'run' });
+
+      if (newSessions.length === 0 && followedSessions.length === 0) {
+        addLog('ℹ️ No new sessions', { level: 'debug', event: 'run' });
+        await saveKnownSessions(currentSessionIds);
+        return { sessions, total: sessions.length, known: currentSessionIds.size, new: 0 };
+      }
+
+      const { renamedCount, processedIds, failedIds, cancelled } = await renameSessions(
+        [...newSessions, ...followedSessions],
+        run,
+        { followedIds: new Set(followedSessions.map(session => session.id)) }
+      );
+
+      if (cancelled) {
+        // Only keep what was handled, the rest is picked up by the next run
+        const handledCount = newSessions.filter(session => processedIds.has(session.id)).length;
+        processedIds.forEach(id => knownSessions.add(id));
+        await saveKnownSessions(knownSessions);
+        addLog(`💾 ${handledCount} of ${newSessions.length} new sessions handled before cancellation`, { event: 'run' });
+        return { sessions: getSessionRefs(), total: sessions.length, known: knownSessions.size, new: newSessions.length - handledCount };
+      }
+
+      // Save all current sessions as known (including the ones we just processed), except failed ones
+      const knownIds = new Set([...currentSessionIds].filter(id => !failedIds.has(id)));
+      await saveKnownSessions(knownIds);
+      await pruneSessionOwnership(currentSessionIds);
+      addLog(`💾 ${knownIds.size} sessions saved as known${failedIds.size > 0 ? `, ${failedIds.size} failed kept for the next run` : ''}`, { event: 'run' });
+
+      if (renamedCount > 0) {
+        addLog(`🎉 ${renamedCount} sessions renamed`, { event: 'rename' });
+      }
+
+      return { sessions: getSessionRefs(), total: sessions.length, known: knownIds.size, new: 0 };
+
+    } catch (error) {
+      addLog(`❌ Error: ${error}`, { level: 'error', event: 'run', error: String(error) });
+      console.error('Error reconcile:', error);
+      return null;
+    }
+  }
+
+  async function processSessions(sessions: SessionEvent[], run: RunToken): Promise<SessionCounts | null> {
+    try {
+      const knownSessions = await getKnownSessions();
+      const newSessions = sessions.filter(session => !knownSessions.has(session.id)).map(({ id, name }) => ({ id, name }));
+      const followedSessions = await getFollowedSessions(sessions, knownSessions);
+      const followedIds = new Set(followedSessions.map(session => session.id));
+      (await getSessionsWithNewEntries(sessions, knownSessions))
+        .filter(session => !followedIds.has(session.id))
+        .forEach(session => followedSessions.push(session));
+      if (newSessions.length === 0 && followedSessions.length === 0) return null;
+
+      if (newSessions.length > 0) {
+        addLog(`⚡ ${newSessions.length} new session(s) from events`, { event: 'run' });
+      }
+      const { renamedCount, processedIds } = await renameSessions(
+        [...newSessions, ...followedSessions],
+        run,
+        { followedIds: new Set(followedSessions.map(session => session.id)) }
+      );
+
+      processedIds.forEach(id => knownSessions.add(id));
+      await saveKnownSessions(knownSessions);
+
+      if (renamedCount > 0) {
+        addLog(`🎉 ${renamedCount} sessions renamed`, { event: 'rename' });
+      }
+      return { total: source.getSessions().length, known: knownSessions.size, new: 0 };
+    } catch (error) {
+      addLog(`❌ Error: ${error}`, { level: 'error', event: 'run', error: String(error) });
+      console.error('Error processSessions:', error);
+      return null;
+    }
+  }
+
+  async function renameNow(sessions: SessionRef[], run: RunToken, options: Pick<RenameOptions, 'replaceManual'> = {}): Promise<RenameSummary | null> {
+    try {
+      const knownSessions = await getKnownSessions();
+      addLog(`▶️ Renaming ${sessions.length} session(s) on request`, { event: 'run' });
+      const summary = await renameSessions(sessions, run, {
+        ...options,
+        placedIds: new Set(sessions.filter(session => knownSessions.has(session.id)).map(session => session.id))
+      });
+
+      summary.processedIds.forEach(id => knownSessions.add(id));
+      await saveKnownSessions(knownSessions);
+      addLog(`🎉 ${summary.renamedCount} of ${sessions.length} session(s) renamed`, { event: 'rename' });
+      return summary;
+    } catch (error) {
+      addLog(`❌ Error: ${error}`, { level: 'error', event: 'run', error: String(error) });
+      console.error('Error renameNow:', error);
+      return null;
+    }
+  }
+
+  async function applyPlan(items: RenamePlanItem[], run: RunToken): Promise<Set<string>> {
+    // Sessions renamed since the plan was computed are left alone
+    const currentNames = new Map(source.getSessions().map(session => [session.id, session.name]));
+    const selected = items.filter(item => item.status === 'rename');
+    const stillCurrent = selected.filter(item => currentNames.get(item.session.id) === item.currentName);
+    if (stillCurrent.length < selected.length) {
+      addLog(`⚠️ ${selected.length - stillCurrent.length} session(s) changed since the preview, not renamed`, { level: 'warn', event: 'rename' });
+    }
+
+    const { renamedIds } = await applyRenames(stillCurrent, run);
+    const knownSessions = await getKnownSessions();
+    renamedIds.forEach(id => knownSessions.add(id));
+    await saveKnownSessions(knownSessions);
+    return renamedIds;
+  }
+
+  // Restores the names prior to the selected renames. A session renamed since then
+  // (by hand or by a later run not part of the selection) is left untouched.
+  async function revertRenames(selection: RevertSelection, run: RunToken) {
+    const records = selectRecordsToRevert((await getStorage()).renameHistory, selection);
+    if (records.length === 0) {
+      addLog('ℹ️ Nothing to revert', { event: 'revert' });
+      return;
+    }
+
+    const currentNames = new Map(source.getSessions().map(session => [session.id, session.name]));
+    const revertedIds = new Set<string>();
+    const restoredNames: Record<string, string> = {};
+    let skippedCount = 0;
+
+    for (const record of records) {
+      if (run.cancelled) break;
+
+      const currentName = currentNames.get(record.sessionId);
+      if (currentName === undefined) {
+        addLog(`⚠️ ${record.sessionId} no longer exists, not reverted`, { level: 'warn', event: 'revert', sessionId: record.sessionId, oldName: record.newName, newName: record.oldName });
+        skippedCount++;
+        continue;
+      }
+      if (currentName !== record.newName) {
+        addLog(`⚠️ ${record.sessionId} was renamed to "${currentName}" since, not reverted`, { level: 'warn', event: 'revert', sessionId: record.sessionId, oldName: currentName, newName: record.oldName });
+        skippedCount++;
+        continue;
+      }
+
+      try {
+        await renamer.renameSession(record.sessionId, record.oldName);
+        currentNames.set(record.sessionId, record.oldName);
+        restoredNames[record.sessionId] = record.oldName;
+        revertedIds.add(record.id);
+        addLog(`↩️ ${record.sessionId}: "${record.newName}" → "${record.oldName}"`, { event: 'revert', sessionId: record.sessionId, oldName: record.newName, newName: record.oldName });
+      } catch (error) {
+        addLog(`❌ Error reverting ${record.sessionId}: ${error}`, { level: 'error', event: 'revert', sessionId: record.sessionId, oldName: record.newName, newName: record.oldName, error: String(error) });
+      }
+    }
+
+    await markRecordsReverted(revertedIds);
+    await saveSessionOwnership({ appliedNames: restoredNames });
+    deps.onSessionNames?.(restoredNames);
+    addLog(`↩️ ${revertedIds.size} of ${records.length} renames reverted${skippedCount > 0 ? `, ${skippedCount} skipped` : ''}`, { event: 'revert' });
+  }
+
+  return {
+    runExclusive,
+    cancelRuns,
+    hasPendingRuns: () => pendingRuns.size > 0,
+    getActiveRunId: () => activeRunId,
+    reconcile,
+    processSessions,
+    renameNow,
+    planRenames,
+    applyPlan,
+    revertRenames,
+    getKnownSessions,
+    clearKnownSessions,
+    getSessionOwnership,
+    setSessionLocked,
+    dispose: () => {
+      cancelRuns();
+      sandbox?.dispose();
+      sandbox = null;
+    }
+  };
+}
@@ -0,0 +1,29 @@
+// Compact fingerprints of requests, used to notice when a session's request was edited
+
+import { getDisplayMethod, type ParsedRequest } from "./request";
+
+// 32-bit FNV-1a, as 8 hex characters
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Only what names are usually made of: editing a header or a parameter value keeps the
+// fingerprint, a new method, host, path, set of parameters or API operation changes it.
+// With response-aware names every entry sent changes it as well.
+export function getRequestFingerprint(request: ParsedRequest): string {
+  const fields = [
+    getDisplayMethod(request),
+    request.host.toLowerCase(),
+    request.pathname,
+    Object.keys(request.query).sort().join('&'),
+    request.operation?.label ?? ''
+  ];
+  // Fingerprints stored without responses stay valid
+  if (request.response) fields.push(request.response.id);
+  return hashString(fields.join('\n'));
+}
@@ -0,0 +1,214 @@
+// Typed access to replay sessions through the SDK's GraphQL client
+//
+// The SDK sends requests with the current access token and refreshes it on its own, so the
+// plugin never reads tokens itself. Failures are turned into GraphQLClientError, retried with
+// backoff when they are transient, and reported as such: no request data is ever made up.
+
+import type { Caido } from "@caido/sdk-frontend";
+import { mapWithConcurrency } from "./batching";
+import { decodeRawRequest } from "./request";
+import { getResponseContentType, type ResponseSummary } from "./response";
+
+// Active entry of a replay session.
+// response is only fetched on demand, it is null when the entry was never answered.
+export type SessionEntry = { raw: string; session: { id: string; name: string }; response?: ResponseSummary | null };
+
+export interface SessionDetailsOptions {
+  withResponse?: boolean; // Also describe the response, its metadata comes with the entry
+  withContentType?: boolean; // Also download the response, only its headers give the content type
+}
+
+export type SessionDetailsResult =
+  | { status: 'ok'; entry: SessionEntry }
+  | { status: 'missing' } // Session deleted or without entry
+  | { status: 'failed'; error: GraphQLClientError };
+
+// 'auth': the access token was rejected, usually while it is being refreshed
+// 'network': the request did not complete or the server was unavailable
+// 'graphql': the server answered with an error
+// 'invalid-response': the answer does not have the expected shape
+export type GraphQLErrorKind = 'auth' | 'network' | 'graphql' | 'invalid-response';
+
+export class GraphQLClientError extends Error {
+  readonly kind: GraphQLErrorKind;
+  readonly transient: boolean; // Worth retrying
+
+  constructor(message: string, kind: GraphQLErrorKind, transient: boolean) {
+    super(message);
+    this.name = 'GraphQLClientError';
+    this.kind = kind;
+    this.transient = transient;
+  }
+}
+
+export interface RetryOptions {
+  attempts: number; // Including the first one
+  baseDelayMs: number; // Doubled after every attempt
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { attempts: 3, baseDelayMs: 500, maxDelayMs: 8000 };
+
+// The SDK throws plain errors, their kind is inferred from the message
+export function toGraphQLClientError(error: unknown): GraphQLClientError {
+  if (error instanceof GraphQLClientError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b401\b|unauthori[sz]ed|unauthenticated|authentication|(?:expired|invalid) (?:access )?token|token (?:has )?expired/i.test(message)) {
+    return new GraphQLClientError(message, 'auth', true);
+  }
+  if (error instanceof TypeError || /\b(?:429|502|503|504)\b|timed? ?out|rate limit|network|failed to fetch|connection/i.test(message)) {
+    return new GraphQLClientError(message, 'network', true);
+  }
+  return new GraphQLClientError(message, 'graphql', false);
+}
+
+// Exponential backoff with up to 25% jitter, attempt starts at 1
+export function getRetryDelay(attempt: number, options: RetryOptions): number {
+  const delay = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  return Math.round(delay * (1 + Math.random() * 0.25));
+}
+
+// Runs operation until it succeeds, fails permanently or runs out of attempts.
+// Auth errors are retried once: the SDK has usually refreshed its token by then.
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (error: GraphQLClientError, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (thrown) {
+      const error = toGraphQLClientError(thrown);
+      const maxAttempts = error.kind === 'auth' ? Math.min(options.attempts, 2) : options.attempts;
+      if (!error.transient || attempt >= maxAttempts) throw error;
+
+      const delayMs = getRetryDelay(attempt, options);
+      onRetry?.(error, attempt, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+// Reads the details of sessions over several batches, the active entries are listed once per reader
+export interface SessionDetailsReader {
+  // Every session gets an entry in the map, a failure only affects its own session
+  getSessionDetailsBatch(sessionIds: string[], concurrency: number, options?: SessionDetailsOptions): Promise<Map<string, SessionDetailsResult>>;
+}
+
+export interface ReplayClient {
+  getSessionDetails(sessionId: string, options?: SessionDetailsOptions): Promise<SessionDetailsResult>;
+  createDetailsReader(): SessionDetailsReader;
+}
+
+// Active entry of a session as listed by the collections query, entryId is null when it has none
+type ActiveEntryRef = { entryId: string | null; session: { id: string; name: string } };
+
+export function createReplayClient(
+  graphql: Caido['graphql'],
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (error: GraphQLClientError, attempt: number, delayMs: number) => void
+): ReplayClient {
+  async function getResponseContentTypeById(responseId: string): Promise<string> {
+    const { response } = await withRetry(() => graphql.response({ id: responseId }), options, onRetry);
+    return typeof response?.raw === 'string' ? getResponseContentType(decodeRawRequest(response.raw)) : '';
+  }
+
+  async function getResponseSummary(
+    response: { id: string; statusCode: number; roundtripTime: number; length: number },
+    withContentType: boolean
+  ): Promise<ResponseSummary> {
+    return {
+      id: response.id,
+      statusCode: response.statusCode,
+      length: response.length,
+      roundtripTime: response.roundtripTime,
+      contentType: withContentType ? await getResponseContentTypeById(response.id) : ''
+    };
+  }
+
+  // The raw request is only exposed on the entry itself, it takes one query per entry
+  async function getEntryDetails(ref: ActiveEntryRef, detailsOptions: SessionDetailsOptions): Promise<SessionDetailsResult> {
+    const { entryId } = ref;
+    if (!entryId) return { status: 'missing' };
+
+    try {
+      const { replayEntry } = await withRetry(() => graphql.replayEntry({ id: entryId }), options, onRetry);
+      if (!replayEntry) return { status: 'missing' };
+      if (typeof replayEntry.raw !== 'string') {
+        throw new GraphQLClientError(`Entry ${entryId} has no raw request`, 'invalid-response', false);
+      }
+
+      const entry: SessionEntry = { raw: replayEntry.raw, session: ref.session };
+      if (detailsOptions.withResponse) {
+        const response = replayEntry.request?.response;
+        entry.response = response ? await getResponseSummary(response, detailsOptions.withContentType === true) : null;
+      }
+      return { status: 'ok', entry };
+    } catch (error) {
+      return { status: 'failed', error: toGraphQLClientError(error) };
+    }
+  }
+
+  async function getSessionDetails(sessionId: string, detailsOptions: SessionDetailsOptions = {}): Promise<SessionDetailsResult> {
+    try {
+      const { replaySession } = await withRetry(() => graphql.activeReplayEntryBySession({ sessionId }), options, onRetry);
+      if (!replaySession) return { status: 'missing' };
+      const session = { id: replaySession.id, name: replaySession.name };
+      return getEntryDetails({ entryId: replaySession.activeEntry?.id ?? null, session }, detailsOptions);
+    } catch (error) {
+      return { status: 'failed', error: toGraphQLClientError(error) };
+    }
+  }
+
+  // Active entries of every session in one query, the SDK client has no query returning
+  // the raw requests of several entries
+  async function getActiveEntries(): Promise<Map<string, ActiveEntryRef>> {
+    const { replaySessionCollections } = await withRetry(() => graphql.replaySessionCollections(), options, onRetry);
+    const refs = new Map<string, ActiveEntryRef>();
+    replaySessionCollections.edges.forEach(({ node }) => node.sessions.forEach(session => {
+      refs.set(session.id, { entryId: session.activeEntry?.id ?? null, session: { id: session.id, name: session.name } });
+    }));
+    return refs;
+  }
+
+  // One list query for the first batch of the reader, then one query per entry.
+  // A failed list is tried again with the next batch. Sessions missing from the list
+  // (created meanwhile) are looked up on their own.
+  function createDetailsReader(): SessionDetailsReader {
+    let activeEntries: Map<string, ActiveEntryRef> | null = null;
+
+    async function getSessionDetailsBatch(
+      sessionIds: string[],
+      concurrency: number,
+      detailsOptions: SessionDetailsOptions = {}
+    ): Promise<Map<string, SessionDetailsResult>> {
+      const results = new Map<string, SessionDetailsResult>();
+      if (sessionIds.length === 0) return results;
+
+      let refs: Map<string, ActiveEntryRef>;
+      try {
+        refs = activeEntries ??= await getActiveEntries();
+      } catch (thrown) {
+        const error = toGraphQLClientError(thrown);
+        sessionIds.forEach(id => results.set(id, { status: 'failed', error }));
+        return results;
+      }
+
+      const fetched = await mapWithConcurrency(sessionIds, concurrency, id => {
+        const ref = refs.get(id);
+        return ref ? getEntryDetails(ref, detailsOptions) : getSessionDetails(id, detailsOptions);
+      });
+      sessionIds.forEach((id, index) => {
+        const result = fetched[index] as { ok: true; value: SessionDetailsResult } | { ok: false; error: unknown };
+        results.set(id, result.ok ? result.value : { status: 'failed', error: toGraphQLClientError(result.error) });
+      });
+      return results;
+    }
+
+    return { getSessionDetailsBatch };
+  }
+
+  return { getSessionDetails, createDetailsReader };
+}
@@ -0,0 +1,79 @@
+// Rename history, used to revert renames made by the plugin
+
+export interface RenameRecord {
+  id: string;
+  sessionId: string;
+  oldName: string;
+  newName: string;
+  source: string; // What produced the name, e.g. "Rule 2", "Template", "Function", "Default"
+  runId: number;
+  timestamp: number; // Milliseconds since epoch
+  revertedAt: number | null;
+}
+
+// Oldest records are dropped past this size to keep the plugin storage small
+export const MAX_HISTORY_RECORDS = 1000;
+
+export function createRenameRecord(fields: Omit<RenameRecord, 'id' | 'timestamp' | 'revertedAt'>): RenameRecord {
+  return {
+    ...fields,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+    timestamp: Date.now(),
+    revertedAt: null
+  };
+}
+
+// Coerce a stored value into a record, returns null if it cannot be one
+export function sanitizeRenameRecord(value: unknown): RenameRecord | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== 'string' || typeof record.sessionId !== 'string' ||
+      typeof record.oldName !== 'string' || typeof record.newName !== 'string') {
+    return null;
+  }
+
+  return {
+    id: record.id,
+    sessionId: record.sessionId,
+    oldName: record.oldName,
+    newName: record.newName,
+    source: typeof record.source === 'string' ? record.source : '',
+    runId: typeof record.runId === 'number' ? record.runId : 0,
+    timestamp: typeof record.timestamp === 'number' ? record.timestamp : 0,
+    revertedAt: typeof record.revertedAt === 'number' ? record.revertedAt : null
+  };
+}
+
+// Newest records first
+export function appendRenameRecords(history: RenameRecord[], records: RenameRecord[]): RenameRecord[] {
+  return [...[...records].reverse(), ...history].slice(0, MAX_HISTORY_RECORDS);
+}
+
+export type RevertSelection =
+  | { kind: 'record'; recordId: string }
+  | { kind: 'run'; runId: number }
+  | { kind: 'since'; timestamp: number }
+  | { kind: 'session'; sessionId: string }; // Latest rename of the session
+
+// Records to revert, newest first so that chained renames of a session unwind in order
+export function selectRecordsToRevert(history: RenameRecord[], selection: RevertSelection): RenameRecord[] {
+  return history
+    .filter(record => record.revertedAt === null)
+    .filter(record => {
+      switch (selection.kind) {
+        case 'record':
+          return record.id === selection.recordId;
+        case 'run':
+          return record.runId === selection.runId;
+        case 'since':
+          return record.timestamp >= selection.timestamp;
+        case 'session':
+          return record.sessionId === selection.sessionId;
+      }
+    })
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, selection.kind === 'session' ? 1 : undefined);
+}
@@ -1,13 +1,60 @@
-import type { Caido } from "@caido/sdk-frontend";
-import { createApp, h, ref, onMounted, onUnmounted, inject } from "vue";
+import type { Caido, CommandContext } from "@caido/sdk-frontend";
+import { createApp, h, ref, watch, onMounted, onUnmounted, inject } from "vue";
+import type { EditorView } from "@codemirror/view";
+import { createRule, type NamingRule } from "./rules";
+import { createReplayClient, type ReplayClient } from "./graphql";
+import { DEFAULT_PATH_FORMAT, sanitizePathFormat, type EllipsisPosition, type PathFormat } from "./paths";
+import { createProfile, exportConfiguration, exportProfile, parseConfigurationExport, ProfileImportError, type NamingMode, type NamingProfile } from "./profiles";
+import { ORGANIZE_MODES, sanitizeOrganizeMode, type OrganizeMode } from "./collections";
+import { appendLogEntries, createLogEntry, DEFAULT_LOG_SIZE, EMPTY_LOG_FILTER, exportLogCsv, exportLogJson, filterLogEntries, LOG_LEVELS, MAX_LOG_SIZE, MIN_LOG_SIZE, sanitizeLogSize, type LogDetails, type LogEntry, type LogFilter, type LogLevel } from "./log";
+import { claimLegacyProject, getActiveProfile, getDefaultData, getDefaultStorage, getProjectStorage, getSettingScopes, loadStorage, NO_PROJECT_KEY, setProjectStorage, setSettingScope, type PluginData, type PluginStorage, type ProjectSetting, type SettingScope } from "./storage";
+import { DEDUPE_STRATEGIES, sanitizeDedupeStrategy, type DedupeStrategy } from "./dedupe";
+import { createRenamingEngine, type RenamePlanItem, type RunResult, type RunToken, type SessionEvent, type SessionRef } from "./engine";
+import type { SessionLocks } from "./ownership";
+import type { RenameRecord, RevertSelection } from "./history";
+import { compileTemplate, usesSource, validateTemplate, TemplateSyntaxError, type CompiledTemplate } from "./template";
+import { createNamingFunctionEditor, setEditorCode } from "./editor";
+import { NamingSandbox, type SandboxResult } from "./sandbox";
+import { decodeRawRequest, parseRawRequest } from "./request";
+import { DEFAULT_RESPONSE_LABEL, sanitizeResponseLabel, type ResponseLabel, type ResponseLabelPosition, type ResponseSummary } from "./response";
+import { findCurrentSession, getContextRaw, registerCommands, toRequestSource, type CommandRequest } from "./commands";
 
 export type CaidoSDK = Caido;
 
-// Storage interface
-interface PluginStorage {
-  knownSessions: string[];
-  customNamingFunction: string;
-  pollingInterval: number;
+// Settings carried by a whole-configuration export, next to the profiles
+const PORTABLE_SETTINGS = [
+  'pollingInterval',
+  'reconciliationEnabled',
+  'detailsBatchSize',
+  'renameConcurrency',
+  'functionTimeout',
+  'autoFollowEdits',
+  'organizeMode',
+  'logSize'
+] as const satisfies readonly (keyof PluginStorage)[];
+
+// Rows shown in the history card, the full history stays in storage
+const HISTORY_DISPLAY_LIMIT = 100;
+
+// While session events report edits, every known session is checked for edits once per this many reconciliations
+const FULL_CHECK_RUNS = 10;
+
+const DEFAULT_NAMING_TEMPLATE = '{method} {path|trunc(30)}';
+
+const LOG_LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: 'var(--p-surface-400)',
+  info: 'var(--p-success-400)',
+  warn: 'var(--p-orange-400)',
+  error: 'var(--p-danger-color)'
+};
+
+function downloadFile(fileName: string, content: string, type = 'application/json') {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
 // Simple Vue component for the tab renamer
@@ -18,463 +65,1383 @@ const TabRenamerComponent = {
     const sdkInstance = inject<CaidoSDK>('sdk');
     
     // Reactive state
-    const isPolling = ref(false);
+    const isRunning = ref(false);
     const logsEnabled = ref(true);
     const sessionsCount = ref(0);
     const knownCount = ref(0);
     const newCount = ref(0);
-    const activityLogs = ref<string[]>([]);
+    const activityLogs = ref<LogEntry[]>([]); // Newest first
+    const logSize = ref(DEFAULT_LOG_SIZE);
+    const logFilter = ref<LogFilter>(EMPTY_LOG_FILTER);
     const namingFunction = ref('');
-    const pollingInterval = ref(3000); // Polling interval in milliseconds
+    const pollingInterval = ref(30000); // Reconciliation interval in milliseconds
+    const reconciliationEnabled = ref(true);
+    const detailsBatchSize = ref(25);
+    const renameConcurrency = ref(4);
+    const eventsStatus = ref<'off' | 'subscribed' | 'unavailable'>('off');
+    const namingRules = ref<NamingRule[]>([]);
+    const namingMode = ref<NamingMode>('function');
+    const namingTemplate = ref('');
+    const templateError = ref<TemplateSyntaxError | null>(null);
+    const functionTimeout = ref(1000);
+    const renameHistory = ref<RenameRecord[]>([]);
+    const revertSince = ref(''); // datetime-local value of the "revert since" picker
+    const sessionLocks = ref<SessionLocks>({});
+    const sessionList = ref<SessionRef[]>([]); // Sessions listed in the ownership card
+    const autoFollowEdits = ref(false);
+    const dedupeStrategy = ref<DedupeStrategy>('counter');
+    const pathFormat = ref<PathFormat>(DEFAULT_PATH_FORMAT);
+    const responseLabel = ref<ResponseLabel>(DEFAULT_RESPONSE_LABEL);
+    const responseLabelFormat = ref(''); // Format being typed, applied once valid
+    const responseLabelError = ref<TemplateSyntaxError | null>(null);
+    const organizeMode = ref<OrganizeMode>('off');
+    const profiles = ref<NamingProfile[]>([]);
+    const activeProfileId = ref('');
+    const previewItems = ref<RenamePlanItem[] | null>(null); // Dry-run result, null when no preview is shown
+    const previewSelection = ref(new Set<string>()); // Sessions ticked to be renamed from the preview
+    const currentProject = ref<{ id: string; name: string } | null>(null); // null when no project is open
+    const settingScopes = ref<Record<ProjectSetting, SettingScope>>(getSettingScopes(getDefaultData(), NO_PROJECT_KEY));
+    const storageProblems = ref<{ problems: string[]; raw: unknown; readOnly: boolean } | null>(null); // Shown until dismissed
+    const sampleRequest = ref(''); // Raw request the naming function is previewed against
+    const sampleSessionId = ref(''); // Session the sample was loaded from, empty when pasted
+    const sampleResult = ref<SandboxResult | null>(null); // null while there is no sample
+    const sampleResponse = ref<ResponseSummary | null>(null); // Response of the sample session, with response-aware names
+    const sampleLoading = ref(false);
 
-    // Polling interval
-    let pollingIntervalId: ReturnType<typeof setInterval> | null = null;
+    // Template compiled on load and on save, used for every rename
+    let compiledTemplate: CompiledTemplate | null = null;
 
-    // Storage functions using Caido storage API
-    async function getStorage(): Promise<PluginStorage> {
+    let replayClient: ReplayClient | null = null;
+
+    // Naming function editor, mounted while the function mode is shown
+    let functionEditor: EditorView | null = null;
+
+    // Separate from the engine's sandbox, a slow preview never delays a run
+    let previewSandbox: NamingSandbox | null = null;
+    let sampleTimer: ReturnType<typeof setTimeout> | null = null;
+    let sampleEvaluationId = 0;
+
+    // Log entries waiting to be written to storage
+    const pendingLogEntries: LogEntry[] = [];
+    let logFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Next reconciliation tick, scheduled once the previous run has finished
+    let pollingTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    // Reconciliations since every known session was last checked for edits, see reconcileReplayTabs
+    let runsSinceFullCheck = FULL_CHECK_RUNS;
+
+    const activeRunId = ref<number | null>(null);
+    const lastRun = ref<RunResult | null>(null);
+
+    // Session event streams, sessions received from events are processed in small batches
+    let eventIterators: AsyncIterator<unknown>[] = [];
+    const queuedEventSessions = new Map<string, SessionEvent>();
+    let eventFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Set when the stored data was written by a newer plugin version, saving would lose its data
+    let storageReadOnly = false;
+    // Stored data as migrated and validated when the project was loaded, then kept by every write.
+    // null until it was read or when it cannot be read.
+    let storedData: PluginData | null = null;
+    // Last storage read or write in progress, see queueStorage
+    let storageQueue: Promise<unknown> = Promise.resolve();
+
+    // Caido project whose settings and session state are loaded, null until the first check, see syncCurrentProject
+    let currentProjectKey: string | null = null;
+    const getProjectKey = () => currentProjectKey ?? NO_PROJECT_KEY;
+    let storageProblemsReported = false;
+
+    // Storage functions using Caido storage API, null when it cannot be read
+    async function readStoredData(): Promise<PluginData | null> {
       try {
-        if (!sdkInstance) return { knownSessions: [], customNamingFunction: '', pollingInterval: 3000 };
+        if (!sdkInstance) return null;
         const stored = await sdkInstance.storage.get();
-        if (stored && typeof stored === 'object' && stored !== null && !Array.isArray(stored)) {
-          const storageObj = stored as Record<string, any>;
-          return {
-            knownSessions: Array.isArray(storageObj.knownSessions) ? storageObj.knownSessions : [],
-            customNamingFunction: typeof storageObj.customNamingFunction === 'string' ? storageObj.customNamingFunction : '',
-            pollingInterval: typeof storageObj.pollingInterval === 'number' ? storageObj.pollingInterval : 3000
-          };
+        const { data, problems, readOnly } = loadStorage(stored);
+        storedData = data;
+        storageReadOnly = readOnly;
+        // Reported once, the stored data is repaired by the next save
+        if (problems.length > 0 && !storageProblemsReported) {
+          storageProblemsReported = true;
+          storageProblems.value = { problems, raw: stored, readOnly };
+          problems.forEach(problem => console.warn('Stored data:', problem));
         }
+        return data;
       } catch (error) {
         console.error('Error reading storage:', error);
       }
-      return { knownSessions: [], customNamingFunction: '', pollingInterval: 3000 };
+      return null;
     }
 
-    async function saveStorage(storage: PluginStorage) {
+    // Read from storage only the first time, see reloadStoredData
+    async function getStoredData(): Promise<PluginData | null> {
+      return storedData ?? readStoredData();
+    }
+
+    // Kept in memory even when it cannot be saved, the plugin goes on with it until reloaded
+    async function saveStoredData(data: PluginData) {
+      storedData = data;
       try {
-        if (!sdkInstance) return;
-        await sdkInstance.storage.set(storage);
+        if (!sdkInstance || storageReadOnly) return;
+        await sdkInstance.storage.set(data);
       } catch (error) {
         console.error('Error writing storage:', error);
       }
     }
 
-    async function getKnownSessions(): Promise<Set<string>> {
+    // Storage of the current project
+    async function getStorage(): Promise<PluginStorage> {
+      const data = await getStoredData();
+      return data ? getProjectStorage(data, getProjectKey()) : getDefaultStorage();
+    }
+
+    function queueStorage<T>(task: () => Promise<T>): Promise<T> {
+      const result = storageQueue.then(task);
+      storageQueue = result.catch(() => undefined);
+      return result;
+    }
+
+    // Read again when another project is loaded, after the writes already queued
+    function reloadStoredData(): Promise<PluginData | null> {
+      return queueStorage(readStoredData);
+    }
+
+    // Writes are chained and change the data as left by the previous one, so a write started
+    // earlier (the engine, the log flush, a setting) is never overwritten with an outdated copy.
+    // Returns the changed data, null when nothing was changed.
+    function updateStoredData(change: (data: PluginData) => PluginData | null): Promise<PluginData | null> {
+      return queueStorage(async () => {
+        const data = await getStoredData();
+        const changed = data && change(data);
+        if (changed) await saveStoredData(changed);
+        return changed;
+      });
+    }
+
+    // The other projects are left as stored, nothing is written when the stored data cannot be read
+    async function updateStorage(change: (storage: PluginStorage) => void): Promise<PluginStorage> {
+      const projectKey = getProjectKey();
+      const data = await updateStoredData(stored => {
+        const storage = getProjectStorage(stored, projectKey);
+        change(storage);
+        return setProjectStorage(stored, projectKey, storage);
+      });
+      return data ? getProjectStorage(data, projectKey) : getDefaultStorage();
+    }
+
+    async function updateActiveProfile(changes: Partial<Omit<NamingProfile, 'id'>>) {
+      const storage = await updateStorage(storage => {
+        const activeId = getActiveProfile(storage).id;
+        storage.profiles = storage.profiles.map(profile => profile.id === activeId ? { ...profile, ...changes } : profile);
+      });
+      profiles.value = storage.profiles;
+    }
+
+    async function saveCustomNamingFunction(functionCode: string) {
+      await updateActiveProfile({ customNamingFunction: functionCode });
+    }
+
+    async function getPollingInterval(): Promise<number> {
       const storage = await getStorage();
-      return new Set(storage.knownSessions);
+      return storage.pollingInterval;
+    }
+
+    async function savePollingInterval(interval: number) {
+      await updateStorage(storage => {
+        storage.pollingInterval = interval;
+      });
     }
 
-    async function saveKnownSessions(sessions: Set<string>) {
+    async function getBatchSettings(): Promise<{ detailsBatchSize: number; renameConcurrency: number }> {
       const storage = await getStorage();
-      storage.knownSessions = Array.from(sessions);
-      await saveStorage(storage);
+      return { detailsBatchSize: storage.detailsBatchSize, renameConcurrency: storage.renameConcurrency };
     }
 
-    async function clearKnownSessions() {
+    async function saveBatchSettings(settings: { detailsBatchSize: number; renameConcurrency: number }) {
+      await updateStorage(storage => {
+        storage.detailsBatchSize = settings.detailsBatchSize;
+        storage.renameConcurrency = settings.renameConcurrency;
+      });
+    }
+
+    async function getReconciliationEnabled(): Promise<boolean> {
       const storage = await getStorage();
-      storage.knownSessions = [];
-      await saveStorage(storage);
+      return storage.reconciliationEnabled;
     }
 
-    async function getCustomNamingFunction(): Promise<string> {
+    async function saveReconciliationEnabled(enabled: boolean) {
+      await updateStorage(storage => {
+        storage.reconciliationEnabled = enabled;
+      });
+    }
+
+    async function saveNamingRules(rules: NamingRule[]) {
+      await updateActiveProfile({ namingRules: rules });
+    }
+
+    async function saveNamingTemplate(mode: NamingMode, template: string) {
+      await updateActiveProfile({ namingMode: mode, namingTemplate: template });
+    }
+
+    async function getFunctionTimeout(): Promise<number> {
       const storage = await getStorage();
-      return storage.customNamingFunction;
+      return storage.functionTimeout;
     }
 
-    async function saveCustomNamingFunction(functionCode: string) {
+    async function saveFunctionTimeout(timeout: number) {
+      await updateStorage(storage => {
+        storage.functionTimeout = timeout;
+      });
+    }
+
+    async function getOrganizeMode(): Promise<OrganizeMode> {
       const storage = await getStorage();
-      storage.customNamingFunction = functionCode;
-      await saveStorage(storage);
+      return storage.organizeMode;
     }
 
-    async function getPollingInterval(): Promise<number> {
+    async function saveOrganizeMode(mode: OrganizeMode) {
+      await updateStorage(storage => {
+        storage.organizeMode = mode;
+      });
+    }
+
+    async function getActivityLog(): Promise<{ entries: LogEntry[]; size: number }> {
       const storage = await getStorage();
-      return storage.pollingInterval;
+      return { entries: storage.activityLog, size: storage.logSize };
     }
 
-    async function savePollingInterval(interval: number) {
+    // Entries past the new size are dropped right away
+    async function saveLogSize(size: number) {
+      await updateStorage(storage => {
+        storage.logSize = size;
+        storage.activityLog = storage.activityLog.slice(0, size);
+      });
+    }
+
+    async function clearActivityLog() {
+      pendingLogEntries.length = 0;
+      await updateStorage(storage => {
+        storage.activityLog = [];
+      });
+    }
+
+    async function savePathFormat(format: PathFormat) {
+      await updateActiveProfile({ pathFormat: format });
+    }
+
+    async function saveDedupeStrategy(strategy: DedupeStrategy) {
+      await updateActiveProfile({ dedupeStrategy: strategy });
+    }
+
+    async function saveResponseLabel(label: ResponseLabel) {
+      await updateActiveProfile({ responseLabel: label });
+    }
+
+    // Settings outside profiles
+    async function loadSettings() {
+      functionTimeout.value = await getFunctionTimeout();
+      autoFollowEdits.value = await getAutoFollowEdits();
+      organizeMode.value = await getOrganizeMode();
+      pollingInterval.value = await getPollingInterval();
+      reconciliationEnabled.value = await getReconciliationEnabled();
+      const batchSettings = await getBatchSettings();
+      detailsBatchSize.value = batchSettings.detailsBatchSize;
+      renameConcurrency.value = batchSettings.renameConcurrency;
+      logSize.value = (await getActivityLog()).size;
+    }
+
+    // Puts the naming settings of the active profile in the editor
+    async function loadActiveProfile() {
       const storage = await getStorage();
-      storage.pollingInterval = interval;
-      await saveStorage(storage);
+      const profile = getActiveProfile(storage);
+      profiles.value = storage.profiles;
+      activeProfileId.value = profile.id;
+
+      namingFunction.value = profile.customNamingFunction || getDefaultNamingFunction();
+      namingRules.value = profile.namingRules;
+      namingMode.value = profile.namingMode;
+      namingTemplate.value = profile.namingTemplate || DEFAULT_NAMING_TEMPLATE;
+      templateError.value = validateTemplate(namingTemplate.value);
+      compiledTemplate = templateError.value ? null : compileTemplate(namingTemplate.value);
+      pathFormat.value = profile.pathFormat;
+      dedupeStrategy.value = profile.dedupeStrategy;
+      responseLabel.value = profile.responseLabel;
+      responseLabelFormat.value = profile.responseLabel.format;
+      responseLabelError.value = null;
+    }
+
+    async function getAutoFollowEdits(): Promise<boolean> {
+      const storage = await getStorage();
+      return storage.autoFollowEdits;
+    }
+
+    async function saveAutoFollowEdits(enabled: boolean) {
+      await updateStorage(storage => {
+        storage.autoFollowEdits = enabled;
+      });
     }
 
+    function getReplayClient(): ReplayClient {
+      if (!replayClient) {
+        replayClient = createReplayClient((sdkInstance as CaidoSDK).graphql, undefined, (error, attempt, delayMs) =>
+          addLog(`🔁 GraphQL ${error.kind} error, retry ${attempt} in ${delayMs} ms: ${error.message}`, { level: 'warn', event: 'fetch', error: error.message }));
+      }
+      return replayClient;
+    }
+
+    // Renaming logic lives in the engine, backed here by the Caido SDK
+    const engine = createRenamingEngine({
+      storage: { get: getStorage, update: updateStorage },
+      sessions: {
+        getSessions: () => sdkInstance?.replay.getSessions() ?? [],
+        getCollections: () => sdkInstance?.replay.getCollections() ?? [],
+        createDetailsReader: () => getReplayClient().createDetailsReader()
+      },
+      renamer: {
+        renameSession: async (sessionId, name) => {
+          await (sdkInstance as CaidoSDK).replay.renameSession(sessionId, name);
+        },
+        createCollection: async name => {
+          const { createReplaySessionCollection } = await (sdkInstance as CaidoSDK).graphql.createReplaySessionCollection({ input: { name } });
+          return createReplaySessionCollection.collection?.id ?? null;
+        },
+        moveSession: async (sessionId, collectionId) => {
+          await (sdkInstance as CaidoSDK).graphql.moveReplaySession({ id: sessionId, collectionId });
+        }
+      },
+      getConfig: () => ({
+        namingRules: namingRules.value,
+        namingMode: namingMode.value,
+        namingFunction: namingFunction.value,
+        namingTemplate: compiledTemplate,
+        pathFormat: pathFormat.value,
+        dedupeStrategy: dedupeStrategy.value,
+        responseLabel: responseLabel.value,
+        organizeMode: organizeMode.value,
+        autoFollowEdits: autoFollowEdits.value,
+        detailsBatchSize: detailsBatchSize.value,
+        renameConcurrency: renameConcurrency.value,
+        functionTimeout: functionTimeout.value
+      }),
+      log: addLog,
+      onStorageChange: storage => {
+        renameHistory.value = storage.renameHistory;
+        sessionLocks.value = storage.sessionLocks;
+      },
+      onSessionNames: names => {
+        sessionList.value = sessionList.value.map(session => ({ ...session, name: names[session.id] ?? session.name }));
+      },
+      onRunChange: (runId, run) => {
+        activeRunId.value = runId;
+        lastRun.value = run;
+      }
+    });
+
     function getDefaultNamingFunction(): string {
       return `// Default naming function
-// Available variables: method, path, host
-// Must return a string
+// Runs in an isolated worker: no DOM, storage or network access
+// Available variables: method, path, host, req, normalizePath
+// req holds the parsed request: httpVersion, target (as written on the request line),
+// targetForm ('origin', 'absolute', 'authority' or 'asterisk'), websocket (upgrade handshake),
+// headers ([{ name, value }] in order),
+// pathname, queryString, query, cookies and body ({ type: 'json', json } /
+// { type: 'form', fields } / { type: 'multipart', fieldNames } / { type: 'text', raw })
+// and operation (GraphQL, JSON-RPC or SOAP operation, e.g. { name: 'updateUser', label: 'gql:updateUser' })
+// With response-aware names, req.response holds { statusCode, length, roundtripTime, contentType }
+// (null when the request was never answered or the option is off)
+// normalizePath(path, { maxLength, ellipsis }) replaces IDs, UUIDs, hashes, tokens and dates
+// with placeholders and shortens long paths ('start', 'middle' or 'end' ellipsis),
+// options default to the path settings below
+// Must return a string, or { name, collection } to also pick the replay collection of new sessions
 
-const cleanPath = path.replace(/[?#].*$/, '').replace(/[^a-zA-Z0-9\/\\-\\_\\.]/g, '');
-const maxLength = 30;
-let tabName = \`\${method} \${cleanPath}\`;
+const verb = req.websocket ? 'WS' : method;
 
-if (tabName.length > maxLength) {
-  const truncated = cleanPath.substring(0, maxLength - method.length - 4) + '...';
-  tabName = \`\${method} \${truncated}\`;
+// Single-endpoint APIs are named after the operation
+if (req.operation) {
+  return \`\${verb} \${req.operation.label}\`;
 }
 
-return tabName;`;
+return \`\${verb} \${normalizePath(path)}\`;`;
     }
 
     // Utility functions
-    function addLog(message: string) {
+    function addLog(message: string, details: LogDetails = {}) {
       if (!logsEnabled.value) return;
       
-      const timestamp = new Date().toLocaleTimeString();
-      const logEntry = `[${timestamp}] ${message}`;
+      const entry = createLogEntry(message, details);
+      activityLogs.value = appendLogEntries(activityLogs.value, [entry], logSize.value);
       
-      activityLogs.value.unshift(logEntry);
+      // Entries come in bursts during a run, they are persisted together
+      pendingLogEntries.push(entry);
+      if (!logFlushTimer) {
+        logFlushTimer = setTimeout(flushLog, 1000);
+      }
+    }
+
+    async function flushLog() {
+      logFlushTimer = null;
+      const entries = pendingLogEntries.splice(0);
+      if (entries.length === 0) return;
       
-      // Keep only last 50 logs
-      if (activityLogs.value.length > 50) {
-        activityLogs.value = activityLogs.value.slice(0, 50);
+      await updateStorage(storage => {
+        storage.activityLog = appendLogEntries(storage.activityLog, entries, storage.logSize);
+      });
+    }
+
+    // Single-flight: a check requested while another run is pending or in flight is skipped
+    function checkAndRenameReplayTabs(): Promise<void> {
+      if (engine.hasPendingRuns()) {
+        addLog(`⏭️ Run #${activeRunId.value ?? '?'} still in progress, check skipped`, { level: 'debug', event: 'run' });
+        return Promise.resolve();
       }
+      return engine.runExclusive('reconciliation', reconcileReplayTabs);
     }
 
-    function generateTabName(method: string, path: string, host?: string): string {
-      try {
-        // Try to use custom function
-        const customFunction = namingFunction.value;
-        
-        if (customFunction.trim()) {
-          // Create function from custom code
-          const userFunction = new Function('method', 'path', 'host', customFunction);
-          const result = userFunction(method, path, host || '');
-          
-          if (typeof result === 'string' && result.trim()) {
-            return result.trim();
-          }
+    async function reconcileReplayTabs(run: RunToken) {
+      if (!sdkInstance) {
+        addLog('❌ SDK not available', { level: 'error', event: 'run' });
+        return;
+      }
+
+      await syncCurrentProject();
+
+      // Session events report edited sessions as they happen, every known session is only checked
+      // without them, after starting or loading a project, and once in a while in case one was missed
+      const followEdits = eventsStatus.value !== 'subscribed' || runsSinceFullCheck >= FULL_CHECK_RUNS;
+      runsSinceFullCheck = followEdits ? 1 : runsSinceFullCheck + 1;
+
+      const result = await engine.reconcile(run, { followEdits });
+      if (result) {
+        sessionList.value = result.sessions;
+        updateCounts(result.total, result.known, result.new);
+      }
+    }
+
+    function revertRenames(selection: RevertSelection): Promise<void> {
+      return engine.runExclusive('revert', async run => {
+        if (!sdkInstance) {
+          addLog('❌ SDK not available', { level: 'error', event: 'revert' });
+          return;
         }
+        await engine.revertRenames(selection, run);
+      });
+    }
+
+    function updateCounts(total: number, known: number, newCountValue: number) {
+      sessionsCount.value = total;
+      knownCount.value = known;
+      newCount.value = newCountValue;
+    }
+
+    function startPolling() {
+      stopPolling(false);
+      scheduleNextPoll();
+      addLog(`🔄 Reconciliation polling started (${pollingInterval.value}ms interval)`, { event: 'run' });
+    }
+
+    // The next tick is scheduled only when the previous run has finished
+    // A run restarting polling (e.g. after a project change) leaves its own timer in place
+    function scheduleNextPoll() {
+      const timeoutId = setTimeout(async () => {
+        await checkAndRenameReplayTabs();
+        if (pollingTimeoutId === timeoutId) {
+          scheduleNextPoll();
+        }
+      }, pollingInterval.value);
+      pollingTimeoutId = timeoutId;
+    }
+
+    function stopPolling(log = true) {
+      if (pollingTimeoutId) {
+        clearTimeout(pollingTimeoutId);
+        pollingTimeoutId = null;
+        if (log) {
+          addLog('⏹️ Reconciliation polling stopped', { event: 'run' });
+        }
+      }
+    }
+
+    function subscribeToSessionEvents() {
+      if (!sdkInstance) return;
+      unsubscribeFromSessionEvents();
+
+      try {
+        consumeSessionEvents(sdkInstance.graphql.createdReplaySession(), event => toSessionEvent(event.createdReplaySession.sessionEdge.node));
+        consumeSessionEvents(sdkInstance.graphql.updatedReplaySession(), event => toSessionEvent(event.updatedReplaySession.sessionEdge.node));
+        eventsStatus.value = 'subscribed';
+        addLog('📡 Listening to replay session events', { event: 'run' });
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        addLog(`⚠️ Custom function error: ${errorMessage}`);
-        addLog('🔄 Using default function');
+        eventsStatus.value = 'unavailable';
+        addLog(`⚠️ Session events unavailable, relying on polling: ${error}`, { level: 'warn', event: 'run', error: String(error) });
       }
-      
-      // Default function in case of error or no custom function
-      const cleanPath = path.replace(/[?#].*$/, '').replace(/[^a-zA-Z0-9\/\-\_\.]/g, '');
-      const maxLength = 30;
-      let tabName = `${method} ${cleanPath}`;
-      
-      if (tabName.length > maxLength) {
-        const truncated = cleanPath.substring(0, maxLength - method.length - 4) + '...';
-        tabName = `${method} ${truncated}`;
+    }
+
+    function unsubscribeFromSessionEvents() {
+      const iterators = eventIterators;
+      eventIterators = [];
+      iterators.forEach(iterator => iterator.return?.());
+
+      if (eventFlushTimer) {
+        clearTimeout(eventFlushTimer);
+        eventFlushTimer = null;
       }
-      
-      return tabName;
+      queuedEventSessions.clear();
+      eventsStatus.value = 'off';
+    }
+
+    function toSessionEvent(node: { id: string; name: string; activeEntry?: { id: string } | null }): SessionEvent {
+      return { id: node.id, name: node.name, activeEntryId: node.activeEntry?.id ?? null };
     }
 
-    function parseRawRequest(raw: string) {
+    async function consumeSessionEvents<T>(events: AsyncIterable<T>, getSession: (event: T) => SessionEvent | undefined) {
+      const iterator = events[Symbol.asyncIterator]();
+      eventIterators.push(iterator);
+
       try {
-        if (!raw || typeof raw !== 'string') {
-          return null;
-        }
-        
-        // Normalize line breaks
-        const normalizedRaw = raw.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-        const lines = normalizedRaw.split('\n');
-        
-        if (lines.length === 0) {
-          return null;
-        }
-        
-        // Find request line (first non-empty line)
-        let requestLine = '';
-        for (const line of lines) {
-          if (line.trim()) {
-            requestLine = line.trim();
-            break;
+        while (true) {
+          const { value, done } = await iterator.next();
+          if (done) break;
+
+          const session = getSession(value);
+          if (session) {
+            queueSessionEvent(session);
           }
         }
-        
-        if (!requestLine) {
-          return null;
-        }
-        
-        // Parse request line: METHOD PATH HTTP/VERSION
-        const parts = requestLine.split(/\s+/);
-        if (parts.length < 2) {
-          return null;
+      } catch (error) {
+        // Only report streams that were not closed on purpose
+        if (eventIterators.includes(iterator)) {
+          eventsStatus.value = 'unavailable';
+          addLog(`⚠️ Session event stream closed, relying on polling: ${error}`, { level: 'warn', event: 'run', error: String(error) });
         }
-        
-        const method = parts[0];
-        const path = parts[1];
-        
-        // Look for Host header
-        let host = '';
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-          if (trimmedLine.toLowerCase().startsWith('host:')) {
-            host = trimmedLine.substring(5).trim();
-            break;
-          }
+      } finally {
+        eventIterators = eventIterators.filter(other => other !== iterator);
+      }
+    }
+
+    function queueSessionEvent(session: SessionEvent) {
+      queuedEventSessions.set(session.id, { id: session.id, name: session.name, activeEntryId: session.activeEntryId });
+
+      // Events arrive in bursts (e.g. project import), group them in one batch
+      if (!eventFlushTimer) {
+        eventFlushTimer = setTimeout(flushSessionEvents, 200);
+      }
+    }
+
+    async function flushSessionEvents() {
+      eventFlushTimer = null;
+      const queued = Array.from(queuedEventSessions.values());
+      queuedEventSessions.clear();
+
+      // Waits for a reconciliation in flight, so both never rename the same session
+      await engine.runExclusive('events', async run => {
+        // Events received around a project change are superseded by a full check of the new project
+        if (await syncCurrentProject()) {
+          await reconcileReplayTabs(run);
+          return;
         }
-        
-        // Validate results
-        if (!method || !path) {
-          return null;
+        const counts = await engine.processSessions(queued, run);
+        if (counts) {
+          updateCounts(counts.total, counts.known, counts.new);
         }
-        
-        return { method, path, host };
-        
-      } catch (error) {
-        console.error('Error parseRawRequest:', error);
-        return null;
+      });
+    }
+
+    function startAutoRename() {
+      isRunning.value = true;
+      runsSinceFullCheck = FULL_CHECK_RUNS;
+      subscribeToSessionEvents();
+
+      // Catch up on sessions created while stopped, then keep polling as a fallback
+      checkAndRenameReplayTabs();
+      if (reconciliationEnabled.value) {
+        startPolling();
       }
     }
 
-    async function getSessionDetails(sessionId: string) {
-      try {
-        if (!sdkInstance) return null;
-        
-        const auth = JSON.parse(localStorage.getItem("CAIDO_AUTHENTICATION") || "{}");
-        const accessToken = auth.accessToken;
-        
-        if (!accessToken) {
-          throw new Error("Token manquant");
+    function stopAutoRename() {
+      unsubscribeFromSessionEvents();
+      stopPolling();
+      engine.cancelRuns();
+      isRunning.value = false;
+      addLog('⏹️ Auto-rename stopped', { event: 'run' });
+    }
+
+    // Event handlers
+    const onStartClick = () => {
+      if (!isRunning.value) {
+        startAutoRename();
+      } else {
+        stopAutoRename();
+      }
+    };
+
+    // A check asked for by hand looks at every session
+    const onTestClick = () => {
+      runsSinceFullCheck = FULL_CHECK_RUNS;
+      checkAndRenameReplayTabs();
+    };
+
+    // Dry run over every session, known ones included, nothing is renamed until selected rows are applied
+    const onPreviewClick = () => engine.runExclusive('preview', async run => {
+      if (!sdkInstance) return;
+      
+      const sessions = sdkInstance.replay.getSessions().map(({ id, name }) => ({ id, name }));
+      addLog(`👁️ Previewing names of ${sessions.length} session(s)...`, { event: 'fetch' });
+      const { items, cancelled } = await engine.planRenames(sessions, run);
+      if (cancelled) return;
+      
+      previewItems.value = items;
+      previewSelection.value = new Set(items.filter(item => item.status === 'rename').map(item => item.session.id));
+      addLog(`👁️ ${previewSelection.value.size} of ${items.length} sessions would be renamed`, { event: 'rename' });
+    });
+
+    const onApplyPreviewClick = () => engine.runExclusive('preview apply', async run => {
+      if (!sdkInstance || !previewItems.value) return;
+      
+      const renamedIds = await engine.applyPlan(previewItems.value.filter(item => previewSelection.value.has(item.session.id)), run);
+      previewItems.value = previewItems.value.map(item => renamedIds.has(item.session.id)
+        ? { ...item, currentName: item.newName ?? item.currentName, status: 'unchanged' }
+        : item);
+      previewSelection.value = new Set([...previewSelection.value].filter(id => !renamedIds.has(id)));
+      addLog(`🎉 ${renamedIds.size} sessions renamed from the preview`, { event: 'rename' });
+    });
+
+    const onPreviewRowToggle = (sessionId: string, selected: boolean) => {
+      const selection = new Set(previewSelection.value);
+      if (selected) {
+        selection.add(sessionId);
+      } else {
+        selection.delete(sessionId);
+      }
+      previewSelection.value = selection;
+    };
+
+    const onPreviewSelectAll = (selected: boolean) => {
+      previewSelection.value = selected
+        ? new Set((previewItems.value ?? []).filter(item => item.status === 'rename').map(item => item.session.id))
+        : new Set();
+    };
+
+    const onResetClick = async () => {
+      await engine.clearKnownSessions();
+      addLog('🔄 Storage sessions cleared', { event: 'storage' });
+      updateCounts(0, 0, 0);
+    };
+
+    const onToggleLogsClick = () => {
+      logsEnabled.value = !logsEnabled.value;
+      addLog(`📋 Logs ${logsEnabled.value ? 'enabled' : 'disabled'}`, { event: 'settings' });
+    };
+
+    const onLogFilterChange = (field: keyof LogFilter, e: Event) => {
+      logFilter.value = { ...logFilter.value, [field]: (e.target as HTMLInputElement | HTMLSelectElement).value };
+    };
+
+    const onLogSizeChange = async (e: Event) => {
+      logSize.value = sanitizeLogSize(parseInt((e.target as HTMLInputElement).value));
+      activityLogs.value = activityLogs.value.slice(0, logSize.value);
+      await saveLogSize(logSize.value);
+      addLog(`📋 Log keeps the last ${logSize.value} entries`, { event: 'settings' });
+    };
+
+    // Exports what the filters show, oldest entry first
+    const onExportLogClick = (format: 'json' | 'csv') => {
+      const entries = filterLogEntries(activityLogs.value, logFilter.value);
+      const fileName = `replay-tab-renamer-log-${new Date().toISOString().substring(0, 10)}.${format}`;
+      if (format === 'json') {
+        downloadFile(fileName, exportLogJson(entries));
+      } else {
+        downloadFile(fileName, exportLogCsv(entries), 'text/csv');
+      }
+    };
+
+    const onClearLogClick = async () => {
+      activityLogs.value = [];
+      await clearActivityLog();
+    };
+
+    const onSaveFunctionClick = async () => {
+      if (namingMode.value === 'template') {
+        // Parse once on save, an invalid template is never stored
+        try {
+          compiledTemplate = compileTemplate(namingTemplate.value);
+          templateError.value = null;
+        } catch (error) {
+          if (!(error instanceof TemplateSyntaxError)) throw error;
+          templateError.value = error;
+          addLog(`⚠️ Template not saved: ${error.message}`, { level: 'warn', event: 'naming', error: error.message });
+          return;
         }
+
+        await saveNamingTemplate('template', namingTemplate.value);
+        addLog('💾 Naming template saved', { event: 'naming' });
+        return;
+      }
+
+      await saveCustomNamingFunction(namingFunction.value);
+      await saveNamingTemplate('function', namingTemplate.value);
+      await saveFunctionTimeout(functionTimeout.value);
+      addLog('💾 Naming function saved', { event: 'naming' });
+    };
+
+    const onResetFunctionClick = () => {
+      if (namingMode.value === 'template') {
+        namingTemplate.value = DEFAULT_NAMING_TEMPLATE;
+        compiledTemplate = compileTemplate(DEFAULT_NAMING_TEMPLATE);
+        templateError.value = null;
+        saveNamingTemplate('template', DEFAULT_NAMING_TEMPLATE);
+        addLog('🔄 Default template restored', { event: 'naming' });
+        return;
+      }
+
+      namingFunction.value = getDefaultNamingFunction();
+      saveCustomNamingFunction(''); // Clear storage
+      addLog('🔄 Default function restored', { event: 'naming' });
+    };
+
+    const onNamingModeClick = (mode: NamingMode) => {
+      namingMode.value = mode;
+      addLog(`✏️ Naming mode: ${mode === 'template' ? 'template' : 'JavaScript function'} (save to keep it)`, { event: 'naming' });
+    };
+
+    const onTemplateInput = (e: Event) => {
+      namingTemplate.value = (e.target as HTMLInputElement).value;
+      // Validate while typing, the compiled template only changes on save
+      templateError.value = validateTemplate(namingTemplate.value);
+    };
+
+    const onAddRuleClick = () => {
+      namingRules.value = [...namingRules.value, createRule()];
+    };
+
+    const onRuleChange = (index: number, patch: Partial<NamingRule>) => {
+      namingRules.value = namingRules.value.map((rule, i) => i === index ? { ...rule, ...patch } : rule);
+    };
+
+    const onMoveRuleClick = (index: number, offset: number) => {
+      const target = index + offset;
+      if (target < 0 || target >= namingRules.value.length) return;
+
+      const rules = [...namingRules.value];
+      const [rule] = rules.splice(index, 1);
+      if (!rule) return;
+      rules.splice(target, 0, rule);
+      namingRules.value = rules;
+    };
+
+    const onDeleteRuleClick = (index: number) => {
+      namingRules.value = namingRules.value.filter((_, i) => i !== index);
+    };
+
+    const onSaveRulesClick = async () => {
+      // Report invalid path regexes and templates before saving, those rules would never match
+      namingRules.value.forEach((rule, index) => {
+        const error = validateTemplate(rule.template);
+        if (error) {
+          addLog(`⚠️ Rule ${index + 1} has an invalid template: ${error.message}`, { level: 'warn', event: 'naming', error: error.message });
+        }
+        const collectionError = rule.collection.trim() ? validateTemplate(rule.collection) : null;
+        if (collectionError) {
+          addLog(`⚠️ Rule ${index + 1} has an invalid collection template: ${collectionError.message}`, { level: 'warn', event: 'naming', error: collectionError.message });
+        }
+
+        if (!rule.pathRegex.trim()) return;
         try {
-          const response = await fetch('/graphql', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${accessToken}`
-            },
-            body: JSON.stringify({
-              query: 'query replaySession($id:String!){replaySession(id:$id){activeEntry{createdAt raw session{id name}}}}',
-              variables: { id: sessionId },
-              operationName: 'replaySession',
-            }),
+          new RegExp(rule.pathRegex);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          addLog(`⚠️ Rule ${index + 1} has an invalid path regex: ${errorMessage}`, { level: 'warn', event: 'naming', error: errorMessage });
+        }
+      });
+
+      await saveNamingRules(namingRules.value);
+      addLog(`💾 ${namingRules.value.length} naming rules saved`, { event: 'naming' });
+    };
+
+    const onPollingIntervalChange = (e: Event) => {
+      const value = parseInt((e.target as HTMLInputElement).value);
+      pollingInterval.value = value;
+      addLog(`⏱️ Reconciliation interval changed to ${value}ms`, { event: 'settings' });
+      
+      // Save to storage
+      savePollingInterval(value);
+      
+      // Restart polling with new interval if currently active, the run in flight is cancelled
+      if (isRunning.value && reconciliationEnabled.value) {
+        engine.cancelRuns();
+        stopPolling();
+        startPolling();
+      }
+    };
+
+    const onBatchSettingChange = (setting: 'detailsBatchSize' | 'renameConcurrency', e: Event) => {
+      const value = parseInt((e.target as HTMLInputElement).value);
+      const max = setting === 'detailsBatchSize' ? 100 : 16;
+      const target = setting === 'detailsBatchSize' ? detailsBatchSize : renameConcurrency;
+      target.value = Number.isFinite(value) ? Math.min(Math.max(value, 1), max) : target.value;
+
+      saveBatchSettings({ detailsBatchSize: detailsBatchSize.value, renameConcurrency: renameConcurrency.value });
+      addLog(`📦 ${setting === 'detailsBatchSize' ? 'Sessions per step' : 'Parallel requests'} set to ${target.value}`, { event: 'settings' });
+    };
+
+    const onProfileSelect = async (profileId: string) => {
+      const storage = await updateStorage(storage => {
+        storage.activeProfileId = profileId;
+      });
+      await loadActiveProfile();
+      addLog(`🗂️ Profile "${getActiveProfile(storage).name}" active`, { event: 'profile' });
+    };
+
+    // New profiles start as a copy of the active one
+    const onNewProfileClick = async () => {
+      const storage = await updateStorage(storage => {
+        const active = getActiveProfile(storage);
+        const profile = createProfile(`${active.name} copy`, active);
+        storage.profiles = [...storage.profiles, profile];
+        storage.activeProfileId = profile.id;
+      });
+      await loadActiveProfile();
+      addLog(`🗂️ Profile "${getActiveProfile(storage).name}" created`, { event: 'profile' });
+    };
+
+    const onProfileNameChange = async (e: Event) => {
+      const name = (e.target as HTMLInputElement).value.trim();
+      if (!name) return;
+      await updateActiveProfile({ name });
+    };
+
+    const onDeleteProfileClick = async () => {
+      const deleted = getActiveProfile(await getStorage());
+      const storage = await updateStorage(storage => {
+        if (storage.profiles.length <= 1) return;
+        storage.profiles = storage.profiles.filter(profile => profile.id !== deleted.id);
+        storage.activeProfileId = (storage.profiles[0] as NamingProfile).id;
+      });
+      if (storage.profiles.some(profile => profile.id === deleted.id)) {
+        addLog('⚠️ The last profile cannot be deleted', { level: 'warn', event: 'profile' });
+        return;
+      }
+
+      await loadActiveProfile();
+      addLog(`🗑️ Profile "${deleted.name}" deleted`, { event: 'profile' });
+    };
+
+    const onExportProfileClick = async () => {
+      const profile = getActiveProfile(await getStorage());
+      const slug = profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+      downloadFile(`replay-tab-renamer-${slug}.json`, exportProfile(profile));
+      addLog(`📤 Profile "${profile.name}" exported`, { event: 'profile' });
+    };
+
+    const onExportConfigurationClick = async () => {
+      const storage = await getStorage();
+      const settings = Object.fromEntries(PORTABLE_SETTINGS.map(key => [key, storage[key]]));
+      downloadFile('replay-tab-renamer-configuration.json', exportConfiguration(storage.profiles, storage.activeProfileId, settings));
+      addLog(`📤 Configuration exported with ${storage.profiles.length} profile(s)`, { event: 'profile' });
+    };
+
+    // A profile replaces the one with the same name, a whole configuration replaces all profiles and settings
+    const onImportChange = async (e: Event) => {
+      const input = e.target as HTMLInputElement;
+      const file = input.files?.[0];
+      input.value = '';
+      if (!file) return;
+
+      try {
+        const imported = parseConfigurationExport(await file.text());
+
+        if (imported.kind === 'profile') {
+          const { name } = imported.profile;
+          const existed = (await getStorage()).profiles.some(profile => profile.name === name);
+          await updateStorage(storage => {
+            const existing = storage.profiles.find(profile => profile.name === name);
+            const profile = { ...imported.profile, id: existing?.id ?? createProfile(name).id };
+            storage.profiles = existing
+              ? storage.profiles.map(other => other.id === existing.id ? profile : other)
+              : [...storage.profiles, profile];
+            storage.activeProfileId = profile.id;
+          });
+          addLog(`📥 Profile "${name}" ${existed ? 'updated' : 'imported'}`, { event: 'profile' });
+        } else {
+          const settings = Object.fromEntries(PORTABLE_SETTINGS.flatMap(key => key in imported.settings ? [[key, imported.settings[key]]] : []));
+          const projectKey = getProjectKey();
+          // Settings go to the scope they come from in the current project, then the result is validated like stored data
+          const merged = await updateStoredData(data => {
+            const { data: validated, problems } = loadStorage(setProjectStorage(data, projectKey, {
+              ...getProjectStorage(data, projectKey),
+              ...settings,
+              profiles: imported.profiles,
+              activeProfileId: imported.activeProfileId
+            }));
+            problems.forEach(problem => addLog(`⚠️ Import: ${problem}`, { level: 'warn', event: 'profile' }));
+            return validated;
           });
-          
-          if (response.ok) {
-            const data = await response.json();
-            console.log(data);
-            return data.data?.replaySession?.activeEntry;
+          if (!merged) return;
+          await loadSettings();
+          if (isRunning.value) {
+            stopPolling(false);
+            if (reconciliationEnabled.value) startPolling();
           }
-        } catch (error) {
-          console.log('GraphQL request failed, trying alternative approach');
+          addLog(`📥 Configuration imported with ${imported.profiles.length} profile(s)`, { event: 'profile' });
         }
-        
-        // If GraphQL fails, try to get basic session info
-        // This is a fallback approach
-        return {
-          session: { name: `Session ${sessionId}` },
-          raw: btoa('GET /api/fallback HTTP/1.1\nHost: localhost\n\n')
-        };
-        
+
+        await loadActiveProfile();
       } catch (error) {
-        console.error('Error getSessionDetails:', error);
+        if (!(error instanceof ProfileImportError)) throw error;
+        addLog(`⚠️ Import failed: ${error.message}`, { level: 'warn', event: 'profile', error: error.message });
+      }
+    };
+
+    const onOrganizeModeChange = (e: Event) => {
+      organizeMode.value = sanitizeOrganizeMode((e.target as HTMLSelectElement).value);
+      saveOrganizeMode(organizeMode.value);
+      addLog(`📁 Collections: ${ORGANIZE_MODES.find(mode => mode.value === organizeMode.value)?.label}`, { event: 'settings' });
+    };
+
+    const onPathFormatChange = (changes: Partial<PathFormat>) => {
+      pathFormat.value = sanitizePathFormat({ ...pathFormat.value, ...changes });
+      savePathFormat(pathFormat.value);
+      addLog(`✂️ Paths shortened to ${pathFormat.value.maxLength} characters, ellipsis at the ${pathFormat.value.ellipsis}`, { event: 'settings' });
+    };
+
+    const onDedupeStrategyChange = (e: Event) => {
+      dedupeStrategy.value = sanitizeDedupeStrategy((e.target as HTMLSelectElement).value);
+      saveDedupeStrategy(dedupeStrategy.value);
+      addLog(`🔀 Duplicate names: ${DEDUPE_STRATEGIES.find(strategy => strategy.value === dedupeStrategy.value)?.label}`, { event: 'settings' });
+    };
+
+    // Only valid formats are applied, an invalid one stays in the input with its error
+    const onResponseLabelChange = (changes: Partial<ResponseLabel>) => {
+      if (changes.format !== undefined && responseLabelError.value) {
+        addLog(`⚠️ Response label not saved: ${responseLabelError.value.message}`, { level: 'warn', event: 'settings', error: responseLabelError.value.message });
+        return;
+      }
+      const wasEnabled = responseLabel.value.enabled;
+      responseLabel.value = sanitizeResponseLabel({ ...responseLabel.value, ...changes });
+      saveResponseLabel(responseLabel.value);
+      if (responseLabel.value.enabled !== wasEnabled) {
+        addLog(responseLabel.value.enabled ? '📨 Response-aware names enabled' : '📨 Response-aware names disabled', { event: 'settings' });
+      } else {
+        addLog(`📨 Response label: "${responseLabel.value.format}" as a ${responseLabel.value.position}`, { event: 'settings' });
+      }
+    };
+
+    const onResponseLabelInput = (e: Event) => {
+      responseLabelFormat.value = (e.target as HTMLInputElement).value;
+      responseLabelError.value = validateTemplate(responseLabelFormat.value);
+    };
+
+    const onAutoFollowToggle = (e: Event) => {
+      autoFollowEdits.value = (e.target as HTMLInputElement).checked;
+      saveAutoFollowEdits(autoFollowEdits.value);
+      addLog(autoFollowEdits.value ? '✏️ Following request edits' : '✏️ No longer following request edits', { event: 'settings' });
+    };
+
+    const onReconciliationToggle = (e: Event) => {
+      const enabled = (e.target as HTMLInputElement).checked;
+      reconciliationEnabled.value = enabled;
+      saveReconciliationEnabled(enabled);
+
+      if (!isRunning.value) return;
+      if (enabled) {
+        startPolling();
+      } else {
+        stopPolling();
+      }
+    };
+
+    async function refreshSessionList() {
+      try {
+        const sessions = await sdkInstance?.replay.getSessions() ?? [];
+        sessionList.value = sessions.map(({ id, name }) => ({ id, name }));
+      } catch (error) {
+        addLog(`❌ Error listing sessions: ${error}`, { level: 'error', event: 'lock', error: String(error) });
+      }
+    }
+
+    // Commands, shortcuts and context menus, feedback is shown as a toast since the page may not be open
+    function notify(message: string, variant: 'success' | 'error' | 'warning' | 'info' = 'info') {
+      sdkInstance?.window.showToast(message, { variant });
+    }
+
+    async function getSessionRaw(sessionId: string): Promise<string | null> {
+      const result = await getReplayClient().getSessionDetails(sessionId);
+      return result.status === 'ok' ? decodeRawRequest(result.entry.raw) : null;
+    }
+
+    async function resolveCurrentSession(context: CommandContext): Promise<SessionRef | null> {
+      if (!sdkInstance) return null;
+      await syncCurrentProject();
+      const sessionId = await findCurrentSession(
+        sdkInstance.replay.getTabs().map(tab => tab.sessionId),
+        getContextRaw(sdkInstance, context),
+        getSessionRaw
+      );
+      const session = sessionId ? sdkInstance.replay.getSessions().find(candidate => candidate.id === sessionId) : undefined;
+      if (!session) {
+        addLog('⚠️ Could not tell which replay tab is current', { level: 'warn', event: 'run' });
+        notify('Could not tell which replay tab is current, run the command from its request', 'warning');
         return null;
       }
+      return { id: session.id, name: session.name };
     }
 
-    async function checkAndRenameReplayTabs() {
-      try {
-        if (!sdkInstance) {
-          addLog('❌ SDK not available');
-          return;
+    const commandActions = {
+      renameCurrent: (context: CommandContext) => engine.runExclusive('rename current tab', async run => {
+        const session = await resolveCurrentSession(context);
+        if (!session) return;
+        // Asked for explicitly, a name given by hand is replaced unless the tab is locked
+        const summary = await engine.renameNow([session], run, { replaceManual: true });
+        if (!summary) {
+          notify('Renaming failed, see the activity log', 'error');
+        } else if (summary.renamedCount > 0) {
+          notify('Replay tab renamed', 'success');
+        } else {
+          notify(sessionLocks.value[session.id] ? 'This tab is locked, unlock it from the plugin page' : 'Tab not renamed, see the activity log');
         }
+      }),
 
-        addLog('🔍 Checking sessions...');
-        
-        // Get real sessions from Caido
-        const sessions = await sdkInstance.replay.getSessions();
-        
-        if (!sessions || sessions.length === 0) {
-          addLog('ℹ️ No sessions found');
-          updateCounts(0, 0, 0);
-          return;
-        }
-        
-        const knownSessions = await getKnownSessions();
-        const currentSessionIds = new Set(sessions.map(s => s.id));
-        
-        // Filter out sessions that are already known (already processed)
-        const newSessions = sessions.filter(session => !knownSessions.has(session.id));
-        
-        addLog(`📊 ${sessions.length} total, ${knownSessions.size} known, ${newSessions.length} new`);
-        updateCounts(sessions.length, knownSessions.size, newSessions.length);
-        
-        if (newSessions.length === 0) {
-          addLog('ℹ️ No new sessions');
-          await saveKnownSessions(currentSessionIds);
+      renameAll: () => engine.runExclusive('rename all tabs', async run => {
+        if (!sdkInstance) return;
+        await syncCurrentProject();
+        const sessions = sdkInstance.replay.getSessions().map(({ id, name }) => ({ id, name }));
+        const summary = await engine.renameNow(sessions, run);
+        await refreshSessionList();
+        notify(summary ? `${summary.renamedCount} replay tab(s) renamed` : 'Renaming failed, see the activity log', summary ? 'success' : 'error');
+      }),
+
+      lockCurrent: async (context: CommandContext) => {
+        const session = await resolveCurrentSession(context);
+        if (!session) return;
+        if (sessionLocks.value[session.id]) {
+          notify(`"${session.name}" is already locked`);
           return;
         }
-        
-        let renamedCount = 0;
-        
-        for (const session of newSessions) {
+        await engine.setSessionLocked(session, true);
+        addLog(`🔒 ${session.id} locked`, { event: 'lock', sessionId: session.id });
+        notify(`"${session.name}" locked`, 'success');
+      },
+
+      revertCurrent: (context: CommandContext) => engine.runExclusive('revert current tab', async run => {
+        const session = await resolveCurrentSession(context);
+        if (!session) return;
+        const pending = renameHistory.value.some(record => record.sessionId === session.id && record.revertedAt === null);
+        await engine.revertRenames({ kind: 'session', sessionId: session.id }, run);
+        notify(pending ? 'Tab name reverted, see the activity log' : 'Nothing to revert for this tab');
+      }),
+
+      sendToReplay: (requests: CommandRequest[]) => engine.runExclusive('send to replay', async run => {
+        if (!sdkInstance) return;
+        await syncCurrentProject();
+        const created: SessionRef[] = [];
+        for (const request of requests) {
           try {
-            addLog(`🆕 Processing session ${session.id}...`);
-            
-            const entry = await getSessionDetails(session.id);
-            if (!entry || !entry.raw) {
-              addLog(`⚠️ No details for ${session.id}`);
-              continue;
+            const { createReplaySession } = await sdkInstance.graphql.createReplaySession({ input: { requestSource: toRequestSource(request) } });
+            if (createReplaySession.session) {
+              created.push({ id: createReplaySession.session.id, name: createReplaySession.session.name });
             }
-            
-            const currentName = entry.session?.name || session.name;
-            const requestInfo = parseRawRequest(atob(entry.raw));
-            
-            if (!requestInfo) {
-              addLog(`⚠️ Cannot parse ${session.id}`);
-              continue;
-            }
-            
-            const newName = generateTabName(requestInfo.method, requestInfo.path);
-            
-            // Check if the session is already correctly named
-            if (currentName === newName) {
-              addLog(`✅ ${session.id} already correctly named`);
-              continue;
-            }
-            
-            // Actually rename the session using Caido API
-            await sdkInstance.replay.renameSession(session.id, newName);
-            
-            addLog(`🏷️ ${session.id} → "${newName}"`);
-            addLog(`   📍 ${requestInfo.method} ${requestInfo.host}${requestInfo.path}`);
-            
-            renamedCount++;
-            
-            // Small delay to avoid overwhelming the API
-            await new Promise(resolve => setTimeout(resolve, 100));
-            
           } catch (error) {
-            addLog(`❌ Error ${session.id}: ${error}`);
+            addLog(`❌ Error sending to Replay: ${error}`, { level: 'error', event: 'run', error: String(error) });
           }
         }
-        
-        // Save all current sessions as known (including the ones we just processed)
-        await saveKnownSessions(currentSessionIds);
-        addLog(`💾 ${currentSessionIds.size} sessions saved as known`);
-        
-        if (renamedCount > 0) {
-          addLog(`🎉 ${renamedCount} sessions renamed`);
+        if (created.length === 0) {
+          notify('Could not send to Replay, see the activity log', 'error');
+          return;
         }
-        
-        const finalKnown = await getKnownSessions();
-        updateCounts(sessions.length, finalKnown.size, 0);
-        
-      } catch (error) {
-        addLog(`❌ Error: ${error}`);
-        console.error('Error checkAndRenameReplayTabs:', error);
+
+        await engine.renameNow(created, run);
+        sdkInstance.replay.openTab((created[created.length - 1] as SessionRef).id);
+        notify(`${created.length} request(s) sent to Replay`, 'success');
+      })
+    };
+
+    const onToggleLockClick = async (session: SessionRef) => {
+      const locked = !sessionLocks.value[session.id];
+      await engine.setSessionLocked(session, locked);
+      addLog(locked ? `🔒 ${session.id} locked` : `🔓 ${session.id} unlocked`, { event: 'lock', sessionId: session.id });
+    };
+
+    const onRevertSinceClick = () => {
+      const timestamp = new Date(revertSince.value).getTime();
+      if (!revertSince.value || Number.isNaN(timestamp)) {
+        addLog('⚠️ Pick a date and time to revert from', { level: 'warn', event: 'revert' });
+        return;
+      }
+      revertRenames({ kind: 'since', timestamp });
+    };
+
+    const onDownloadStoredDataClick = () => {
+      if (!storageProblems.value) return;
+      downloadFile(`replay-tab-renamer-stored-data-${new Date().toISOString().substring(0, 10)}.json`, JSON.stringify(storageProblems.value.raw, null, 2));
+    };
+
+    const onDismissStorageProblemsClick = () => {
+      storageProblems.value = null;
+    };
+
+    // Stable callback, Vue calls it with the element on mount and null on unmount
+    const mountFunctionEditor = (element: unknown) => {
+      if (element instanceof HTMLElement && !functionEditor) {
+        functionEditor = createNamingFunctionEditor({
+          parent: element,
+          code: namingFunction.value,
+          onChange: code => { namingFunction.value = code; }
+        });
+      } else if (!element && functionEditor) {
+        functionEditor.destroy();
+        functionEditor = null;
+      }
+    };
+
+    // Runs the function against the sample request, only the latest evaluation is shown
+    async function evaluateSample() {
+      const evaluationId = ++sampleEvaluationId;
+      if (!sampleRequest.value.trim()) {
+        sampleResult.value = null;
+        return;
       }
-    }
 
-    function updateCounts(total: number, known: number, newCountValue: number) {
-      sessionsCount.value = total;
-      knownCount.value = known;
-      newCount.value = newCountValue;
-    }
+      const parsed = parseRawRequest(sampleRequest.value);
+      if (!parsed.ok) {
+        sampleResult.value = { ok: false, error: `Invalid sample request: ${parsed.message}`, timedOut: false };
+        return;
+      }
 
-    function startPolling() {
-      if (pollingIntervalId) {
-        clearInterval(pollingIntervalId);
+      if (!previewSandbox) {
+        previewSandbox = new NamingSandbox(functionTimeout.value);
+      }
+      previewSandbox.timeoutMs = functionTimeout.value;
+      previewSandbox.pathFormat = pathFormat.value;
+      const [result] = await previewSandbox.evaluate(namingFunction.value, [{ ...parsed.request, response: sampleResponse.value }]);
+      if (evaluationId === sampleEvaluationId) {
+        sampleResult.value = result ?? null;
       }
-      
-      isPolling.value = true;
-      checkAndRenameReplayTabs();
-      
-      pollingIntervalId = setInterval(() => {
-        checkAndRenameReplayTabs();
-      }, pollingInterval.value);
-      
-      addLog(`🔄 Polling started (${pollingInterval.value}ms interval)`);
     }
 
-    function stopPolling() {
-      if (pollingIntervalId) {
-        clearInterval(pollingIntervalId);
-        pollingIntervalId = null;
-      }
-      
-      isPolling.value = false;
-      addLog('⏹️ Polling stopped');
+    function scheduleSampleEvaluation() {
+      if (sampleTimer) clearTimeout(sampleTimer);
+      sampleTimer = setTimeout(() => {
+        sampleTimer = null;
+        evaluateSample();
+      }, 400);
     }
 
-    // Event handlers
-    const onStartClick = () => {
-      if (!isPolling.value) {
-        startPolling();
+    watch(namingFunction, code => {
+      if (functionEditor) setEditorCode(functionEditor, code);
+      scheduleSampleEvaluation();
+    });
+    watch([sampleRequest, sampleResponse, pathFormat, functionTimeout], scheduleSampleEvaluation);
+
+    const onSampleSessionChange = async (sessionId: string) => {
+      sampleSessionId.value = sessionId;
+      sampleResponse.value = null;
+      if (!sessionId || !sdkInstance) return;
+
+      sampleLoading.value = true;
+      const result = await getReplayClient().getSessionDetails(sessionId, {
+        withResponse: responseLabel.value.enabled,
+        withContentType: responseLabel.value.enabled && usesSource(responseLabel.value.format, 'mime')
+      });
+      sampleLoading.value = false;
+      if (sampleSessionId.value !== sessionId) return;
+
+      if (result.status === 'ok') {
+        sampleRequest.value = decodeRawRequest(result.entry.raw);
+        sampleResponse.value = result.entry.response ?? null;
       } else {
-        stopPolling();
+        sampleResult.value = {
+          ok: false,
+          error: result.status === 'missing' ? 'The session has no request' : `Could not load the session: ${result.error.message}`,
+          timedOut: false
+        };
       }
     };
 
-    const onTestClick = () => {
-      checkAndRenameReplayTabs();
-    };
+    // Settings, naming profile and session state of the current project
+    async function loadProjectState() {
+      await loadActiveProfile();
+      await loadSettings();
+      settingScopes.value = getSettingScopes((await getStoredData()) ?? getDefaultData(), getProjectKey());
 
-    const onResetClick = async () => {
-      await clearKnownSessions();
-      addLog('🔄 Storage sessions cleared');
-      updateCounts(0, 0, 0);
-    };
+      const storage = await getStorage();
+      renameHistory.value = storage.renameHistory;
+      sessionLocks.value = storage.sessionLocks;
+      previewItems.value = null;
+      await refreshSessionList();
+      updateCounts(sessionList.value.length, storage.knownSessions.length, 0);
+    }
 
-    const onToggleLogsClick = () => {
-      logsEnabled.value = !logsEnabled.value;
-      addLog(`📋 Logs ${logsEnabled.value ? 'enabled' : 'disabled'}`);
-    };
+    // undefined when the project cannot be read, null when none is open
+    async function getCurrentProject(): Promise<{ id: string; name: string } | null | undefined> {
+      try {
+        const { currentProject: current } = await (sdkInstance as CaidoSDK).graphql.currentProject();
+        return current ? { id: current.project.id, name: current.project.name } : null;
+      } catch (error) {
+        addLog(`⚠️ Cannot read the current project: ${error}`, { level: 'warn', event: 'storage', error: String(error) });
+        return undefined;
+      }
+    }
 
-    const onSaveFunctionClick = async () => {
-      await saveCustomNamingFunction(namingFunction.value);
-      addLog('💾 Naming function saved');
-    };
+    // The plugin stays loaded when another project is opened, the project is checked before every run.
+    // Returns true when the state of another project was loaded.
+    async function syncCurrentProject(): Promise<boolean> {
+      if (!sdkInstance) return false;
+      const project = await getCurrentProject();
+      if (project === undefined) return false;
 
-    const onResetFunctionClick = () => {
-      namingFunction.value = getDefaultNamingFunction();
-      saveCustomNamingFunction(''); // Clear storage
-      addLog('🔄 Default function restored');
-    };
+      const projectKey = project?.id ?? NO_PROJECT_KEY;
+      currentProject.value = project;
+      if (projectKey === currentProjectKey) return false;
+      currentProjectKey = projectKey;
+      runsSinceFullCheck = FULL_CHECK_RUNS;
 
-    const onPollingIntervalChange = (e: Event) => {
-      const value = parseInt((e.target as HTMLInputElement).value);
-      pollingInterval.value = value;
-      addLog(`⏱️ Polling interval changed to ${value}ms`);
-      
-      // Save to storage
-      savePollingInterval(value);
-      
-      // Restart polling with new interval if currently active
-      if (isPolling.value) {
-        stopPolling();
-        startPolling();
+      await reloadStoredData();
+      const claimed = await updateStoredData(data => claimLegacyProject(data, projectKey));
+      if (claimed) {
+        addLog(`📂 Sessions tracked before projects were told apart now belong to "${project?.name}"`, { event: 'storage' });
+      }
+
+      await loadProjectState();
+      addLog(project ? `📂 Project "${project.name}" loaded` : '📂 No project open', { event: 'settings' });
+
+      // Polling settings may differ between projects
+      if (isRunning.value) {
+        stopPolling(false);
+        if (reconciliationEnabled.value) startPolling();
+      }
+      return true;
+    }
+
+    const onSettingScopeToggle = async (key: ProjectSetting) => {
+      const scope: SettingScope = settingScopes.value[key] === 'project' ? 'global' : 'project';
+      const data = await updateStoredData(stored => setSettingScope(stored, getProjectKey(), key, scope));
+      if (!data) return;
+
+      await loadActiveProfile();
+      await loadSettings();
+      settingScopes.value = getSettingScopes((await getStoredData()) ?? data, getProjectKey());
+      if (isRunning.value) {
+        stopPolling(false);
+        if (reconciliationEnabled.value) startPolling();
       }
+      addLog(scope === 'project' ? `📌 ${key} now set for this project` : `🌐 ${key} now follows the global default`, { event: 'settings' });
     };
 
     // Lifecycle
     onMounted(async () => {
       console.log('🎨 Plugin Replay Tab Renamer - Frontend started');
       
-      // Load custom naming function
-      namingFunction.value = await getCustomNamingFunction() || getDefaultNamingFunction();
+      // Load the project's settings and sessions, and the naming function, rules and template of its profile.
+      // The template is compiled once here and on every save.
+      if (!(await syncCurrentProject())) {
+        await loadProjectState();
+      }
       
-      // Load polling interval from storage
-      const storedInterval = await getPollingInterval();
-      pollingInterval.value = storedInterval;
+      // Entries logged while loading are newer than the stored ones
+      activityLogs.value = [...activityLogs.value, ...(await getActivityLog()).entries].slice(0, logSize.value);
+
+      if (sdkInstance) {
+        registerCommands(sdkInstance, commandActions);
+      }
+
+      if (storageProblems.value) {
+        addLog(`⚠️ Stored data had ${storageProblems.value.problems.length} problem(s), see the banner above`, { level: 'warn', event: 'storage' });
+      }
       
       // Initialize
-      const knownSessions = await getKnownSessions();
-      addLog(`🔄 ${knownSessions.size} sessions in memory`);
-      addLog(`⏱️ Polling interval loaded: ${storedInterval}ms`);
+      const knownSessions = await engine.getKnownSessions();
+      addLog(`🔄 ${knownSessions.size} sessions in memory`, { event: 'storage' });
+      addLog(`⏱️ Reconciliation interval loaded: ${pollingInterval.value}ms`, { event: 'settings' });
       updateCounts(0, knownSessions.size, 0);
       
-      // Start polling after 2 seconds
+      // Start listening after 2 seconds
       setTimeout(() => {
-        startPolling();
+        startAutoRename();
       }, 2000);
       
       console.log('✅ Plugin initialized');
     });
 
     onUnmounted(() => {
-      if (pollingIntervalId) {
-        clearInterval(pollingIntervalId);
+      if (logFlushTimer) {
+        clearTimeout(logFlushTimer);
+        flushLog();
       }
+      stopPolling(false);
+      unsubscribeFromSessionEvents();
+      engine.dispose();
+      if (sampleTimer) clearTimeout(sampleTimer);
+      previewSandbox?.dispose();
+      functionEditor?.destroy();
+      functionEditor = null;
     });
 
+    // Where a setting comes from, clicking moves it to the other scope
+    const scopeButton = (key: ProjectSetting) => {
+      const project = settingScopes.value[key] === 'project';
+      return h('button', {
+        onClick: (e: Event) => {
+          e.preventDefault();
+          onSettingScopeToggle(key);
+        },
+        title: project
+          ? 'Set for this project only, click to follow the global default again'
+          : 'Global default, click to set it for this project only',
+        class: 'px-2 py-0.5 rounded border text-xs',
+        style: {
+          borderColor: project ? 'var(--p-primary-color)' : 'var(--p-surface-600)',
+          color: project ? 'var(--p-primary-color)' : 'var(--p-surface-300)',
+          backgroundColor: 'transparent',
+          cursor: 'pointer'
+        }
+      }, project ? 'Project' : 'Global');
+    };
+
     return () => h('div', { class: 'p-5 font-sans', style: { backgroundColor: 'var(--p-surface-900)', color: 'var(--p-surface-0)' } }, [
-      h('h1', { class: 'text-2xl font-bold mb-6', style: { color: 'var(--p-surface-0)' } }, '🏷️ Replay Tab Auto-Renamer'),
+      h('h1', { class: 'text-2xl font-bold mb-2', style: { color: 'var(--p-surface-0)' } }, '🏷️ Replay Tab Auto-Renamer'),
+      h('p', { class: 'text-sm mb-6', style: { color: 'var(--p-surface-300)' } },
+        `📂 ${currentProject.value ? `Project "${currentProject.value.name}"` : 'No project open'}: known sessions, locks and history are kept per project. ` +
+        'Settings marked Global follow the defaults shared by all projects, the ones marked Project apply here only.'),
+
+      // Stored data problems, found while loading
+      storageProblems.value ? h('div', {
+        class: 'mb-6 p-4 rounded-lg shadow-sm border',
+        style: {
+          backgroundColor: 'var(--p-surface-800)',
+          borderColor: 'var(--p-danger-color)',
+          color: 'var(--p-surface-0)'
+        }
+      }, [
+        h('h3', {
+          class: 'text-lg font-semibold mb-3',
+          style: { color: 'var(--p-danger-color)' }
+        }, '⚠️ Stored data problems'),
+        h('p', { class: 'text-sm mb-2', style: { color: 'var(--p-surface-300)' } }, storageProblems.value.readOnly
+          ? 'The stored data comes from a newer version of the plugin. It is read as well as possible and nothing is saved until the plugin is updated.'
+          : 'Invalid values were replaced by their defaults. The stored data is overwritten the next time a setting is saved, download it first to keep a copy.'),
+        h('ul', { class: 'list-disc pl-5 mb-3 text-sm space-y-1' }, storageProblems.value.problems.map(problem => h('li', problem))),
+        h('div', { class: 'flex gap-3' }, [
+          h('button', {
+            class: 'px-4 py-2 rounded border font-medium',
+            style: {
+              borderColor: 'var(--p-surface-600)',
+              color: 'var(--p-surface-0)',
+              backgroundColor: 'transparent',
+              cursor: 'pointer'
+            },
+            onClick: onDownloadStoredDataClick
+          }, '💾 Download stored data'),
+          h('button', {
+            class: 'px-4 py-2 rounded border font-medium',
+            style: {
+              borderColor: 'var(--p-surface-600)',
+              color: 'var(--p-surface-0)',
+              backgroundColor: 'transparent',
+              cursor: 'pointer'
+            },
+            onClick: onDismissStorageProblemsClick
+          }, 'Dismiss')
+        ])
+      ]) : null,
       
       // Three column layout using flexbox
       h('div', { class: 'flex gap-6 mb-6' }, [
@@ -495,10 +1462,16 @@ return tabName;`;
             class: 'space-y-2',
             style: { color: 'var(--p-surface-0)' }
           }, [
-            h('p', `Active polling: ${isPolling.value ? 'Yes' : 'No'}`),
+            h('p', `Auto-rename active: ${isRunning.value ? 'Yes' : 'No'}`),
+            h('p', `Session events: ${{ off: 'Off', subscribed: 'Listening', unavailable: 'Unavailable' }[eventsStatus.value]}`),
+            h('p', `Reconciliation: ${reconciliationEnabled.value ? `every ${pollingInterval.value / 1000}s` : 'Off'}`),
             h('p', `Sessions found: ${sessionsCount.value}`),
             h('p', `Known sessions: ${knownCount.value}`),
             h('p', `New sessions: ${newCount.value}`),
+            h('p', `Current run: ${activeRunId.value !== null ? `#${activeRunId.value} in progress` : 'Idle'}`),
+            h('p', `Last run: ${lastRun.value
+              ? `#${lastRun.value.id} took ${lastRun.value.durationMs} ms${lastRun.value.cancelled ? ' (cancelled)' : ''}`
+              : 'None yet'}`),
             h('p', `Logs enabled: ${logsEnabled.value ? 'Yes' : 'No'}`)
           ])
         ]),
@@ -516,6 +1489,36 @@ return tabName;`;
             class: 'text-lg font-semibold mb-3',
             style: { color: 'var(--p-surface-0)' }
           }, '📝 Activity Logs'),
+          h('div', {
+            class: 'flex gap-2 mb-2',
+            style: { display: logsEnabled.value ? 'flex' : 'none' }
+          }, [
+            h('select', {
+              value: logFilter.value.minLevel,
+              onChange: (e: Event) => onLogFilterChange('minLevel', e),
+              class: 'border rounded p-1 text-sm',
+              style: {
+                backgroundColor: 'var(--p-surface-900)',
+                color: 'var(--p-surface-0)',
+                borderColor: 'var(--p-surface-600)'
+              }
+            }, LOG_LEVELS.map(level => h('option', { value: level.value }, `${level.label}+`))),
+            ...([
+              ['sessionId', 'Session ID', 'w-24'],
+              ['text', 'Search...', 'flex-1 min-w-0']
+            ] as const).map(([field, placeholder, width]) => h('input', {
+              type: 'text',
+              placeholder,
+              value: logFilter.value[field],
+              onInput: (e: Event) => onLogFilterChange(field, e),
+              class: `${width} text-sm border rounded p-1`,
+              style: {
+                backgroundColor: 'var(--p-surface-900)',
+                color: 'var(--p-surface-0)',
+                borderColor: 'var(--p-surface-600)'
+              }
+            }))
+          ]),
           h('div', {
             class: 'p-3 rounded border font-mono text-xs',
             style: { 
@@ -528,17 +1531,56 @@ return tabName;`;
               color: 'var(--p-success-400)',
               borderColor: 'var(--p-surface-700)'
             }
-          }, [
-            activityLogs.value.length === 0 
-              ? h('div', { style: { color: 'var(--p-surface-400)', fontStyle: 'italic' } }, 'Waiting...')
-              : activityLogs.value.map(log => h('div', { 
+          }, (() => {
+            const entries = filterLogEntries(activityLogs.value, logFilter.value);
+            return entries.length === 0
+              ? [h('div', { style: { color: 'var(--p-surface-400)', fontStyle: 'italic' } }, activityLogs.value.length === 0 ? 'Waiting...' : 'No entry matches the filters')]
+              : entries.map(entry => h('div', { 
                 class: 'mb-1 break-words',
-                style: { color: 'var(--p-success-400)' }
-              }, log))
+                title: [entry.event, entry.sessionId && `session ${entry.sessionId}`, entry.error].filter(Boolean).join(' · '),
+                style: { color: LOG_LEVEL_COLORS[entry.level] }
+              }, `[${new Date(entry.timestamp).toLocaleTimeString()}] ${entry.message}`));
+          })()),
+          h('div', {
+            class: 'flex items-center gap-2 mt-2',
+            style: { display: logsEnabled.value ? 'flex' : 'none' }
+          }, [
+            h('label', { 
+              class: 'text-sm',
+              style: { color: 'var(--p-surface-300)' }
+            }, 'Keep'),
+            h('input', {
+              type: 'number',
+              min: String(MIN_LOG_SIZE),
+              max: String(MAX_LOG_SIZE),
+              value: logSize.value,
+              onChange: onLogSizeChange,
+              class: 'w-20 font-mono text-sm border rounded p-1',
+              style: {
+                backgroundColor: 'var(--p-surface-900)',
+                color: 'var(--p-surface-0)',
+                borderColor: 'var(--p-surface-600)'
+              }
+            }),
+            h('span', { class: 'text-sm flex-1', style: { color: 'var(--p-surface-300)' } }, 'entries'),
+            ...([
+              ['JSON', () => onExportLogClick('json')],
+              ['CSV', () => onExportLogClick('csv')],
+              ['Clear', onClearLogClick]
+            ] as const).map(([label, onClick]) => h('button', {
+              onClick,
+              class: 'px-2 py-1 rounded border text-sm',
+              style: {
+                borderColor: 'var(--p-surface-600)',
+                color: 'var(--p-surface-0)',
+                backgroundColor: 'transparent',
+                cursor: 'pointer'
+              }
+            }, label))
           ])
         ]),
         
-        // Polling Configuration Card (Right)
+        // Reconciliation Configuration Card (Right)
         h('div', { 
           class: 'flex-1 p-4 rounded-lg shadow-sm border',
           style: { 
@@ -550,13 +1592,59 @@ return tabName;`;
           h('h3', { 
             class: 'text-lg font-semibold mb-3',
             style: { color: 'var(--p-success-color)' }
-          }, '⏱️ Polling Configuration'),
+          }, '⏱️ Reconciliation'),
           h('div', { class: 'space-y-3' }, [
+            h('p', { 
+              class: 'text-xs',
+              style: { color: 'var(--p-surface-300)' }
+            }, 'New sessions are renamed as soon as Caido reports them. Polling only catches up on missed events.'),
+            h('label', { 
+              class: 'flex items-center gap-2 text-sm font-medium',
+              style: { color: 'var(--p-surface-0)' }
+            }, [
+              h('input', {
+                type: 'checkbox',
+                checked: reconciliationEnabled.value,
+                onChange: onReconciliationToggle
+              }),
+              'Reconciliation polling',
+              scopeButton('reconciliationEnabled')
+            ]),
+            h('label', { 
+              class: 'flex items-center gap-2 text-sm font-medium',
+              style: { color: 'var(--p-surface-0)' },
+              title: 'Rename known sessions when their method, host, path, parameters or API operation change. Locked sessions are left alone.'
+            }, [
+              h('input', {
+                type: 'checkbox',
+                checked: autoFollowEdits.value,
+                onChange: onAutoFollowToggle
+              }),
+              'Auto-follow edits',
+              scopeButton('autoFollowEdits')
+            ]),
+            h('div', { class: 'flex items-center justify-between' }, [
+              h('label', { 
+                class: 'flex items-center gap-2 text-sm font-medium',
+                style: { color: 'var(--p-surface-0)' },
+                title: 'Move new sessions into a collection, missing collections are created'
+              }, ['Collections:', scopeButton('organizeMode')]),
+              h('select', {
+                value: organizeMode.value,
+                onChange: onOrganizeModeChange,
+                class: 'border rounded p-1 text-sm',
+                style: {
+                  backgroundColor: 'var(--p-surface-900)',
+                  color: 'var(--p-surface-0)',
+                  borderColor: 'var(--p-surface-600)'
+                }
+              }, ORGANIZE_MODES.map(mode => h('option', { value: mode.value }, mode.label)))
+            ]),
             h('div', { class: 'flex items-center justify-between' }, [
               h('label', { 
-                class: 'text-sm font-medium',
+                class: 'flex items-center gap-2 text-sm font-medium',
                 style: { color: 'var(--p-surface-0)' }
-              }, 'Polling Interval:'),
+              }, ['Polling Interval:', scopeButton('pollingInterval')]),
               h('span', { 
                 class: 'text-sm',
                 style: { color: 'var(--p-surface-300)' }
@@ -565,9 +1653,10 @@ return tabName;`;
             h('input', {
               type: 'range',
               min: '1000',
-              max: '10000',
-              step: '500',
+              max: '60000',
+              step: '1000',
               value: pollingInterval.value,
+              disabled: !reconciliationEnabled.value,
               onChange: onPollingIntervalChange,
               class: 'w-full h-2 rounded-lg appearance-none cursor-pointer',
               style: { backgroundColor: 'var(--p-surface-600)' }
@@ -577,9 +1666,116 @@ return tabName;`;
               style: { color: 'var(--p-surface-400)' }
             }, [
               h('span', '1s'),
-              h('span', '5s'),
-              h('span', '10s')
-            ])
+              h('span', '30s'),
+              h('span', '60s')
+            ]),
+            ...([
+              ['detailsBatchSize', 'Sessions per step:', detailsBatchSize.value, 100, 'Sessions fetched before a stop request is checked. Each step lists the active entries in one query, the raw requests still take one query per session.'],
+              ['renameConcurrency', 'Parallel requests:', renameConcurrency.value, 16, 'Sessions fetched or renamed at the same time']
+            ] as const).map(([setting, label, value, max, title]) => h('div', { class: 'flex items-center justify-between' }, [
+              h('label', { 
+                class: 'flex items-center gap-2 text-sm font-medium',
+                style: { color: 'var(--p-surface-0)' },
+                title
+              }, [label, scopeButton(setting)]),
+              h('input', {
+                type: 'number',
+                min: '1',
+                max: String(max),
+                value,
+                onChange: (e: Event) => onBatchSettingChange(setting, e),
+                class: 'w-20 font-mono text-sm border rounded p-1',
+                style: {
+                  backgroundColor: 'var(--p-surface-900)',
+                  color: 'var(--p-surface-0)',
+                  borderColor: 'var(--p-surface-600)'
+                }
+              })
+            ]))
+          ])
+        ])
+      ]),
+      
+      // Profiles Card (Full width)
+      h('div', { 
+        class: 'mb-6 p-4 rounded-lg shadow-sm border',
+        style: { 
+          backgroundColor: 'var(--p-surface-800)',
+          borderColor: 'var(--p-surface-700)',
+          color: 'var(--p-surface-0)'
+        }
+      }, [
+        h('h3', { 
+          class: 'text-lg font-semibold mb-3',
+          style: { color: 'var(--p-secondary-color)' }
+        }, '🗂️ Naming Profiles'),
+        h('p', { 
+          class: 'mb-3 text-sm',
+          style: { color: 'var(--p-surface-300)' }
+        }, 'Each profile bundles the naming function or template, the rules, the path length and the duplicate handling.'),
+        h('div', { class: 'flex items-center gap-2 mb-3 text-sm', style: { color: 'var(--p-surface-0)' } }, [
+          'Active profile:',
+          scopeButton('activeProfileId'),
+          h('span', { style: { color: 'var(--p-surface-300)' } }, 'profiles themselves are shared by all projects')
+        ]),
+        h('div', { class: 'flex flex-wrap gap-2 mb-3' }, profiles.value.map(profile => h('button', {
+          key: profile.id,
+          onClick: () => onProfileSelect(profile.id),
+          class: 'px-3 py-1 rounded border text-sm font-medium',
+          style: {
+            borderColor: 'var(--p-surface-600)',
+            color: 'var(--p-surface-0)',
+            backgroundColor: profile.id === activeProfileId.value ? 'var(--p-primary-700)' : 'transparent',
+            cursor: 'pointer'
+          }
+        }, profile.name))),
+        h('div', { class: 'flex flex-wrap items-center gap-3' }, [
+          h('label', { 
+            class: 'text-sm font-medium',
+            style: { color: 'var(--p-surface-0)' }
+          }, 'Name:'),
+          h('input', {
+            type: 'text',
+            value: profiles.value.find(profile => profile.id === activeProfileId.value)?.name ?? '',
+            onChange: onProfileNameChange,
+            class: 'border rounded p-1 text-sm',
+            style: {
+              backgroundColor: 'var(--p-surface-900)',
+              color: 'var(--p-surface-0)',
+              borderColor: 'var(--p-surface-600)'
+            }
+          }),
+          ...([
+            ['New', onNewProfileClick],
+            ['Delete', onDeleteProfileClick],
+            ['Export profile', onExportProfileClick],
+            ['Export all', onExportConfigurationClick]
+          ] as const).map(([label, onClick]) => h('button', {
+            onClick,
+            class: 'px-4 py-2 rounded border font-medium',
+            style: {
+              borderColor: 'var(--p-surface-600)',
+              color: 'var(--p-surface-0)',
+              backgroundColor: 'transparent',
+              cursor: 'pointer'
+            }
+          }, label)),
+          h('label', {
+            class: 'px-4 py-2 rounded border font-medium',
+            style: {
+              borderColor: 'var(--p-surface-600)',
+              color: 'var(--p-surface-0)',
+              backgroundColor: 'transparent',
+              cursor: 'pointer'
+            }
+          }, [
+            'Import',
+            h('input', {
+              type: 'file',
+              accept: '.json,application/json',
+              onChange: onImportChange,
+              style: { display: 'none' }
+            })
           ])
         ])
       ]),
@@ -597,24 +1793,573 @@ return tabName;`;
           class: 'text-lg font-semibold mb-3',
           style: { color: 'var(--p-secondary-color)' }
         }, '⚙️ Renaming Configuration'),
+        h('div', { class: 'flex gap-2 mb-3' }, (['function', 'template'] as const).map(mode => h('button', {
+          onClick: () => onNamingModeClick(mode),
+          class: 'px-3 py-1 rounded border text-sm font-medium',
+          style: {
+            borderColor: 'var(--p-surface-600)',
+            color: 'var(--p-surface-0)',
+            backgroundColor: namingMode.value === mode ? 'var(--p-primary-700)' : 'transparent',
+            cursor: 'pointer'
+          }
+        }, mode === 'function' ? 'JavaScript function' : 'Template'))),
+        h('div', { class: 'flex items-center gap-2 mb-3' }, [
+          h('label', { 
+            class: 'text-sm font-medium',
+            style: { color: 'var(--p-surface-0)' }
+          }, 'Duplicate names:'),
+          h('select', {
+            value: dedupeStrategy.value,
+            onChange: onDedupeStrategyChange,
+            class: 'border rounded p-1 text-sm',
+            style: {
+              backgroundColor: 'var(--p-surface-900)',
+              color: 'var(--p-surface-0)',
+              borderColor: 'var(--p-surface-600)'
+            }
+          }, DEDUPE_STRATEGIES.map(strategy => h('option', { value: strategy.value }, strategy.label))),
+          h('label', { 
+            class: 'text-sm font-medium ml-4',
+            style: { color: 'var(--p-surface-0)' },
+            title: 'Used by the default naming and the normalizePath helper of naming functions'
+          }, 'Path length:'),
+          h('input', {
+            type: 'number',
+            min: '8',
+            max: '200',
+            value: pathFormat.value.maxLength,
+            onChange: (e: Event) => onPathFormatChange({ maxLength: parseInt((e.target as HTMLInputElement).value) }),
+            class: 'w-20 font-mono text-sm border rounded p-1',
+            style: {
+              backgroundColor: 'var(--p-surface-900)',
+              color: 'var(--p-surface-0)',
+              borderColor: 'var(--p-surface-600)'
+            }
+          }),
+          h('select', {
+            value: pathFormat.value.ellipsis,
+            onChange: (e: Event) => onPathFormatChange({ ellipsis: (e.target as HTMLSelectElement).value as EllipsisPosition }),
+            class: 'border rounded p-1 text-sm',
+            style: {
+              backgroundColor: 'var(--p-surface-900)',
+              color: 'var(--p-surface-0)',
+              borderColor: 'var(--p-surface-600)'
+            }
+          }, (['start', 'middle', 'end'] as const).map(position => h('option', { value: position }, `Ellipsis at ${position}`)))
+        ]),
+        h('div', { class: 'flex items-center gap-2 mb-1' }, [
+          h('label', { 
+            class: 'flex items-center gap-2 text-sm font-medium',
+            style: { color: 'var(--p-surface-0)' },
+            title: 'Read the response of the active entry and rename sessions again when a request is sent. {mime} downloads each response to read its headers'
+          }, [
+            h('input', {
+              type: 'checkbox',
+              checked: responseLabel.value.enabled,
+              onChange: (e: Event) => onResponseLabelChange({ enabled: (e.target as HTMLInputElement).checked })
+            }),
+            'Response-aware names'
+          ]),
+          h('input', {
+            type: 'text',
+            value: responseLabelFormat.value,
+            disabled: !responseLabel.value.enabled,
+            onInput: onResponseLabelInput,
+            onChange: () => onResponseLabelChange({ format: responseLabelFormat.value }),
+            class: 'w-40 font-mono text-sm border rounded p-1',
+            style: {
+              backgroundColor: 'var(--p-surface-900)',
+              color: 'var(--p-surface-0)',
+              borderColor: responseLabelError.value ? 'var(--p-danger-color)' : 'var(--p-surface-600)'
+            },
+            placeholder: 'No label',
+            title: 'Template with {status}, {length}, {time} and {mime}, empty to only expose the response to naming'
+          }),
+          h('select', {
+            value: responseLabel.value.position,
+            disabled: !responseLabel.value.enabled,
+            onChange: (e: Event) => onResponseLabelChange({ position: (e.target as HTMLSelectElement).value as ResponseLabelPosition }),
+            class: 'border rounded p-1 text-sm',
+            style: {
+              backgroundColor: 'var(--p-surface-900)',
+              color: 'var(--p-surface-0)',
+              borderColor: 'var(--p-surface-600)'
+            }
+          }, (['prefix', 'suffix'] as const).map(position => h('option', { value: position }, position === 'prefix' ? 'Before the name' : 'After the name')))
+        ]),
+        responseLabelError.value
+          ? h('pre', { 
+            class: 'mb-3 font-mono text-xs',
+            style: { color: 'var(--p-danger-color)' }
+          }, `${responseLabelFormat.value}\n${' '.repeat(responseLabelError.value.position)}^ ${responseLabelError.value.message}`)
+          : h('p', { 
+            class: 'mb-3 text-xs',
+            style: { color: 'var(--p-surface-300)' }
+          }, 'Status, length, timing and content type of the last response, e.g. "[{status}]" gives "[403] POST /admin/users". Also available as req.response and in rule templates.'),
+        namingMode.value === 'function'
+          ? h('div', [
+            h('p', { 
+              class: 'mb-3',
+              style: { color: 'var(--p-surface-0)' }
+            }, 'Customize the tab name generation function:'),
+            h('div', { ref: mountFunctionEditor }),
+            h('div', { class: 'flex items-center gap-2 mt-2 text-sm' }, [
+              h('label', { style: { color: 'var(--p-surface-0)' } }, 'Time budget per request:'),
+              scopeButton('functionTimeout'),
+              h('input', {
+                type: 'number',
+                min: '50',
+                max: '10000',
+                step: '50',
+                value: functionTimeout.value,
+                onChange: (e: Event) => {
+                  const value = parseInt((e.target as HTMLInputElement).value);
+                  functionTimeout.value = Number.isFinite(value) ? Math.min(Math.max(value, 50), 10000) : 1000;
+                },
+                class: 'w-24 font-mono text-sm border rounded p-1',
+                style: {
+                  backgroundColor: 'var(--p-surface-900)',
+                  color: 'var(--p-surface-0)',
+                  borderColor: 'var(--p-surface-600)'
+                }
+              }),
+              h('span', { style: { color: 'var(--p-surface-300)' } }, 'ms, the function runs in an isolated worker without DOM, storage or network access')
+            ]),
+
+            // Live preview against a sample request
+            h('div', { class: 'mt-4' }, [
+              h('div', { class: 'flex items-center gap-2 mb-2 text-sm' }, [
+                h('label', { style: { color: 'var(--p-surface-0)' } }, 'Sample request:'),
+                h('select', {
+                  value: sampleSessionId.value,
+                  onChange: (e: Event) => onSampleSessionChange((e.target as HTMLSelectElement).value),
+                  class: 'border rounded p-1 text-sm',
+                  style: {
+                    backgroundColor: 'var(--p-surface-900)',
+                    color: 'var(--p-surface-0)',
+                    borderColor: 'var(--p-surface-600)'
+                  }
+                }, [
+                  h('option', { value: '' }, 'Pasted below'),
+                  ...sessionList.value.map(session => h('option', { value: session.id }, `${session.name} (${session.id})`))
+                ]),
+                sampleLoading.value && h('span', { style: { color: 'var(--p-surface-300)' } }, 'Loading...')
+              ]),
+              h('textarea', {
+                value: sampleRequest.value,
+                onInput: (e: Event) => {
+                  sampleRequest.value = (e.target as HTMLTextAreaElement).value;
+                  sampleSessionId.value = '';
+                  sampleResponse.value = null;
+                },
+                class: 'w-full font-mono text-sm border rounded p-3',
+                style: {
+                  height: '120px',
+                  backgroundColor: 'var(--p-surface-900)',
+                  color: 'var(--p-surface-0)',
+                  borderColor: 'var(--p-surface-600)'
+                },
+                placeholder: 'GET /api/users/42 HTTP/1.1\nHost: example.com'
+              }),
+              sampleResult.value && h('div', { class: 'mt-2 text-sm font-mono' }, sampleResult.value.ok
+                ? [
+                  h('span', { style: { color: 'var(--p-surface-300)' } }, 'Name: '),
+                  h('span', { style: { color: 'var(--p-surface-0)' } }, sampleResult.value.name ?? '(nothing returned, the session keeps its name)'),
+                  sampleResult.value.collection && h('span', { style: { color: 'var(--p-surface-300)' } }, ` in collection ${sampleResult.value.collection}`)
+                ]
+                : h('span', { style: { color: 'var(--p-danger-color)' } }, sampleResult.value.error))
+            ])
+          ])
+          : h('div', [
+            h('p', { 
+              class: 'mb-3',
+              style: { color: 'var(--p-surface-0)' }
+            }, 'Customize the tab name template:'),
+            h('input', {
+              type: 'text',
+              value: namingTemplate.value,
+              onInput: onTemplateInput,
+              class: 'w-full font-mono text-sm border rounded p-3',
+              style: { 
+                backgroundColor: 'var(--p-surface-900)',
+                color: 'var(--p-surface-0)',
+                borderColor: templateError.value ? 'var(--p-danger-color)' : 'var(--p-surface-600)'
+              },
+              placeholder: DEFAULT_NAMING_TEMPLATE
+            }),
+            templateError.value
+              ? h('pre', { 
+                class: 'mt-2 font-mono text-xs',
+                style: { color: 'var(--p-danger-color)' }
+              }, `${namingTemplate.value}\n${' '.repeat(templateError.value.position)}^ ${templateError.value.message}`)
+              : null,
+            h('div', { 
+              class: 'mt-3 text-xs space-y-1',
+              style: { color: 'var(--p-surface-300)' }
+            }, [
+              h('p', 'Placeholders: {method} {host} {path} {operation} {query} {query.name} {header.Name} {cookie.name} {body.field}'),
+              h('p', 'Response placeholders, with response-aware names: {status} {length} {time} {mime}'),
+              h('p', 'Filters: :short (host), :lastN / :firstN (path segments), segments(start, end), trunc(n), upper, lower, default("text")'),
+              h('p', 'Example: {method} {host:short} {path:segments(-2)|trunc(30)} {query.action}')
+            ])
+          ])
+      ]),
+      
+      // Naming Rules Card (Full width)
+      h('div', { 
+        class: 'mb-6 p-4 rounded-lg shadow-sm border',
+        style: { 
+          backgroundColor: 'var(--p-surface-800)',
+          borderColor: 'var(--p-surface-700)',
+          color: 'var(--p-surface-0)'
+        }
+      }, [
+        h('h3', { 
+          class: 'text-lg font-semibold mb-3',
+          style: { color: 'var(--p-secondary-color)' }
+        }, '📐 Naming Rules'),
         h('p', { 
-          class: 'mb-3',
-          style: { color: 'var(--p-surface-0)' }
-        }, 'Customize the tab name generation function:'),
-        h('textarea', {
-          value: namingFunction.value,
-          onInput: (e: Event) => {
-            namingFunction.value = (e.target as HTMLTextAreaElement).value;
-          },
-          class: 'w-full font-mono text-sm border rounded p-3',
-          style: { 
-            height: '200px',
-            backgroundColor: 'var(--p-surface-900)',
+          class: 'mb-3 text-sm',
+          style: { color: 'var(--p-surface-300)' }
+        }, 'Evaluated top to bottom, the first enabled matching rule names the tab. Empty conditions match anything. Templates use the same syntax as the naming template.'),
+        h('table', { class: 'w-full text-sm mb-3' }, [
+          h('thead', [
+            h('tr', { style: { color: 'var(--p-surface-300)' } }, [
+              h('th', { class: 'text-left p-1' }, 'On'),
+              h('th', { class: 'text-left p-1' }, 'Host glob'),
+              h('th', { class: 'text-left p-1' }, 'Methods'),
+              h('th', { class: 'text-left p-1' }, 'Path regex'),
+              h('th', { class: 'text-left p-1' }, 'Header present'),
+              h('th', { class: 'text-left p-1' }, 'Name template'),
+              h('th', { class: 'text-left p-1' }, 'Collection'),
+              h('th', { class: 'text-left p-1' }, '')
+            ])
+          ]),
+          h('tbody', namingRules.value.length === 0
+            ? [h('tr', [h('td', { colspan: 8, class: 'p-1 italic', style: { color: 'var(--p-surface-400)' } }, 'No rules, the naming function is used for every tab')])]
+            : namingRules.value.map((rule, index) => {
+              const cellInput = (value: string, placeholder: string, onValue: (value: string) => void) => h('input', {
+                type: 'text',
+                value,
+                placeholder,
+                onInput: (e: Event) => onValue((e.target as HTMLInputElement).value),
+                class: 'w-full font-mono text-xs border rounded p-1',
+                style: {
+                  backgroundColor: 'var(--p-surface-900)',
+                  color: 'var(--p-surface-0)',
+                  borderColor: 'var(--p-surface-600)'
+                }
+              });
+              const rowButton = (label: string, title: string, onClick: () => void) => h('button', {
+                onClick,
+                title,
+                class: 'px-2 py-1 rounded border text-xs',
+                style: {
+                  borderColor: 'var(--p-surface-600)',
+                  color: 'var(--p-surface-0)',
+                  backgroundColor: 'transparent',
+                  cursor: 'pointer'
+                }
+              }, label);
+
+              return h('tr', { key: rule.id, style: { opacity: rule.enabled ? 1 : 0.5 } }, [
+                h('td', { class: 'p-1' }, [
+                  h('input', {
+                    type: 'checkbox',
+                    checked: rule.enabled,
+                    onChange: (e: Event) => onRuleChange(index, { enabled: (e.target as HTMLInputElement).checked })
+                  })
+                ]),
+                h('td', { class: 'p-1' }, [cellInput(rule.hostGlob, '*.example.com', value => onRuleChange(index, { hostGlob: value }))]),
+                h('td', { class: 'p-1' }, [cellInput(rule.methods.join(', '), 'GET, POST', value => onRuleChange(index, {
+                  methods: value.split(',').map(m => m.trim().toUpperCase()).filter(Boolean)
+                }))]),
+                h('td', { class: 'p-1' }, [cellInput(rule.pathRegex, '^/api/', value => onRuleChange(index, { pathRegex: value }))]),
+                h('td', { class: 'p-1' }, [cellInput(rule.headerPresent, 'X-Tenant', value => onRuleChange(index, { headerPresent: value }))]),
+                h('td', { class: 'p-1' }, [cellInput(rule.template, '{method} {path}', value => onRuleChange(index, { template: value }))]),
+                h('td', { class: 'p-1' }, [cellInput(rule.collection, '{host:short}', value => onRuleChange(index, { collection: value }))]),
+                h('td', { class: 'p-1 whitespace-nowrap' }, [
+                  rowButton('↑', 'Move up', () => onMoveRuleClick(index, -1)),
+                  rowButton('↓', 'Move down', () => onMoveRuleClick(index, 1)),
+                  rowButton('✕', 'Delete rule', () => onDeleteRuleClick(index))
+                ])
+              ]);
+            }))
+        ]),
+        h('div', { class: 'flex gap-3' }, [
+          h('button', {
+            onClick: onAddRuleClick,
+            class: 'px-4 py-2 rounded border font-medium',
+            style: {
+              borderColor: 'var(--p-surface-600)',
+              color: 'var(--p-surface-0)',
+              backgroundColor: 'transparent',
+              cursor: 'pointer'
+            }
+          }, 'Add Rule'),
+          h('button', {
+            onClick: onSaveRulesClick,
+            class: 'px-4 py-2 rounded font-medium',
+            style: {
+              backgroundColor: 'var(--p-primary-700)',
+              color: 'var(--p-surface-0)',
+              border: 'none',
+              cursor: 'pointer'
+            }
+          }, 'Save Rules')
+        ])
+      ]),
+      
+      // Preview Card (Full width), shown once a preview was computed
+      previewItems.value && h('div', { 
+        class: 'mb-6 p-4 rounded-lg shadow-sm border',
+        style: { 
+          backgroundColor: 'var(--p-surface-800)',
+          borderColor: 'var(--p-surface-700)',
+          color: 'var(--p-surface-0)'
+        }
+      }, [
+        h('h3', { 
+          class: 'text-lg font-semibold mb-3',
+          style: { color: 'var(--p-secondary-color)' }
+        }, '👁️ Preview'),
+        h('p', { 
+          class: 'mb-3 text-sm',
+          style: { color: 'var(--p-surface-300)' }
+        }, 'Names the current configuration would give every session. Nothing is renamed until the selected rows are applied.'),
+        h('div', { class: 'overflow-y-auto mb-3', style: { maxHeight: '400px' } }, [
+          h('table', { class: 'w-full text-sm' }, [
+            h('thead', [
+              h('tr', { style: { color: 'var(--p-surface-300)' } }, [
+                h('th', { class: 'text-left p-1' }, ''),
+                h('th', { class: 'text-left p-1' }, 'Session'),
+                h('th', { class: 'text-left p-1' }, 'Current name'),
+                h('th', { class: 'text-left p-1' }, 'Proposed name'),
+                h('th', { class: 'text-left p-1' }, 'Request'),
+                h('th', { class: 'text-left p-1' }, 'Status')
+              ])
+            ]),
+            h('tbody', previewItems.value.map(item => {
+              const statusText = {
+                rename: item.error ?? '',
+                unchanged: 'Already named',
+                locked: 'Locked',
+                manual: 'Renamed by hand',
+                'same-request': 'Request unchanged',
+                failed: `Fetch failed: ${item.error}`,
+                missing: item.error ?? 'No active entry',
+                unparsable: item.error ?? 'Cannot parse request'
+              }[item.status];
+
+              return h('tr', { key: item.session.id, style: { opacity: item.status === 'rename' ? 1 : 0.6 } }, [
+                h('td', { class: 'p-1' }, [
+                  h('input', {
+                    type: 'checkbox',
+                    checked: previewSelection.value.has(item.session.id),
+                    disabled: item.status !== 'rename',
+                    onChange: (e: Event) => onPreviewRowToggle(item.session.id, (e.target as HTMLInputElement).checked)
+                  })
+                ]),
+                h('td', { class: 'p-1 font-mono text-xs' }, item.session.id),
+                h('td', { class: 'p-1' }, item.currentName),
+                h('td', { class: 'p-1' }, item.newName ?? '—'),
+                h('td', { class: 'p-1 font-mono text-xs' }, item.request ? `${item.request.method} ${item.request.host}${item.request.path}` : ''),
+                h('td', { 
+                  class: 'p-1 text-xs',
+                  style: { color: item.error ? 'var(--p-danger-color)' : 'var(--p-surface-400)' }
+                }, statusText)
+              ]);
+            }))
+          ])
+        ]),
+        h('div', { class: 'flex gap-3' }, [
+          h('button', {
+            onClick: onApplyPreviewClick,
+            disabled: previewSelection.value.size === 0,
+            class: 'px-4 py-2 rounded font-medium',
+            style: {
+              backgroundColor: 'var(--p-primary-700)',
+              color: 'var(--p-surface-0)',
+              border: 'none',
+              cursor: previewSelection.value.size === 0 ? 'default' : 'pointer',
+              opacity: previewSelection.value.size === 0 ? 0.5 : 1
+            }
+          }, `Apply ${previewSelection.value.size} selected`),
+          ...([['Select all', true], ['Select none', false]] as const).map(([label, selected]) => h('button', {
+            onClick: () => onPreviewSelectAll(selected),
+            class: 'px-4 py-2 rounded border font-medium',
+            style: {
+              borderColor: 'var(--p-surface-600)',
+              color: 'var(--p-surface-0)',
+              backgroundColor: 'transparent',
+              cursor: 'pointer'
+            }
+          }, label)),
+          h('button', {
+            onClick: () => { previewItems.value = null; },
+            class: 'px-4 py-2 rounded border font-medium',
+            style: {
+              borderColor: 'var(--p-surface-600)',
+              color: 'var(--p-surface-0)',
+              backgroundColor: 'transparent',
+              cursor: 'pointer'
+            }
+          }, 'Close')
+        ])
+      ]),
+      
+      // Session Ownership Card (Full width)
+      h('div', { 
+        class: 'mb-6 p-4 rounded-lg shadow-sm border',
+        style: { 
+          backgroundColor: 'var(--p-surface-800)',
+          borderColor: 'var(--p-surface-700)',
+          color: 'var(--p-surface-0)'
+        }
+      }, [
+        h('h3', { 
+          class: 'text-lg font-semibold mb-3',
+          style: { color: 'var(--p-secondary-color)' }
+        }, '🔒 Session Locks'),
+        h('p', { 
+          class: 'mb-3 text-sm',
+          style: { color: 'var(--p-surface-300)' }
+        }, 'Locked sessions are never renamed. Sessions renamed by hand are locked automatically.'),
+        h('div', { class: 'overflow-y-auto mb-3', style: { maxHeight: '300px' } }, [
+          h('table', { class: 'w-full text-sm' }, [
+            h('thead', [
+              h('tr', { style: { color: 'var(--p-surface-300)' } }, [
+                h('th', { class: 'text-left p-1' }, 'Session'),
+                h('th', { class: 'text-left p-1' }, 'Name'),
+                h('th', { class: 'text-left p-1' }, 'Owner'),
+                h('th', { class: 'text-left p-1' }, '')
+              ])
+            ]),
+            h('tbody', sessionList.value.length === 0
+              ? [h('tr', [h('td', { colspan: 4, class: 'p-1 italic', style: { color: 'var(--p-surface-400)' } }, 'No sessions')])]
+              : sessionList.value.map(session => {
+                const lock = sessionLocks.value[session.id];
+                const owner = !lock ? 'Plugin' : lock.reason === 'user' ? 'Locked by you' : 'Renamed by hand';
+
+                return h('tr', { key: session.id }, [
+                  h('td', { class: 'p-1 font-mono text-xs' }, session.id),
+                  h('td', { class: 'p-1' }, session.name),
+                  h('td', { class: 'p-1', style: { color: lock ? 'var(--p-surface-0)' : 'var(--p-surface-400)' } }, owner),
+                  h('td', { class: 'p-1' }, [
+                    h('button', {
+                      onClick: () => onToggleLockClick(session),
+                      class: 'px-2 py-1 rounded border text-xs',
+                      style: {
+                        borderColor: 'var(--p-surface-600)',
+                        color: 'var(--p-surface-0)',
+                        backgroundColor: 'transparent',
+                        cursor: 'pointer'
+                      }
+                    }, lock ? 'Unlock' : 'Lock')
+                  ])
+                ]);
+              }))
+          ])
+        ]),
+        h('button', {
+          onClick: refreshSessionList,
+          class: 'px-4 py-2 rounded border font-medium',
+          style: {
+            borderColor: 'var(--p-surface-600)',
             color: 'var(--p-surface-0)',
-            borderColor: 'var(--p-surface-600)'
-          },
-          placeholder: 'Enter custom naming function...'
-        })
+            backgroundColor: 'transparent',
+            cursor: 'pointer'
+          }
+        }, 'Refresh')
+      ]),
+      
+      // Rename History Card (Full width)
+      h('div', { 
+        class: 'mb-6 p-4 rounded-lg shadow-sm border',
+        style: { 
+          backgroundColor: 'var(--p-surface-800)',
+          borderColor: 'var(--p-surface-700)',
+          color: 'var(--p-surface-0)'
+        }
+      }, [
+        h('h3', { 
+          class: 'text-lg font-semibold mb-3',
+          style: { color: 'var(--p-secondary-color)' }
+        }, '🕘 Rename History'),
+        h('p', { 
+          class: 'mb-3 text-sm',
+          style: { color: 'var(--p-surface-300)' }
+        }, `Last ${Math.min(renameHistory.value.length, HISTORY_DISPLAY_LIMIT)} of ${renameHistory.value.length} renames. Reverting skips sessions renamed again since.`),
+        h('div', { class: 'overflow-y-auto mb-3', style: { maxHeight: '300px' } }, [
+          h('table', { class: 'w-full text-sm' }, [
+            h('thead', [
+              h('tr', { style: { color: 'var(--p-surface-300)' } }, [
+                h('th', { class: 'text-left p-1' }, 'Time'),
+                h('th', { class: 'text-left p-1' }, 'Session'),
+                h('th', { class: 'text-left p-1' }, 'Old name'),
+                h('th', { class: 'text-left p-1' }, 'New name'),
+                h('th', { class: 'text-left p-1' }, 'Source'),
+                h('th', { class: 'text-left p-1' }, 'Run'),
+                h('th', { class: 'text-left p-1' }, '')
+              ])
+            ]),
+            h('tbody', renameHistory.value.length === 0
+              ? [h('tr', [h('td', { colspan: 7, class: 'p-1 italic', style: { color: 'var(--p-surface-400)' } }, 'No renames yet')])]
+              : renameHistory.value.slice(0, HISTORY_DISPLAY_LIMIT).map(record => {
+                const rowButton = (label: string, title: string, onClick: () => void) => h('button', {
+                  onClick,
+                  title,
+                  disabled: record.revertedAt !== null,
+                  class: 'px-2 py-1 rounded border text-xs',
+                  style: {
+                    borderColor: 'var(--p-surface-600)',
+                    color: 'var(--p-surface-0)',
+                    backgroundColor: 'transparent',
+                    cursor: record.revertedAt !== null ? 'default' : 'pointer'
+                  }
+                }, label);
+
+                return h('tr', { key: record.id, style: { opacity: record.revertedAt !== null ? 0.5 : 1 } }, [
+                  h('td', { class: 'p-1 whitespace-nowrap' }, new Date(record.timestamp).toLocaleString()),
+                  h('td', { class: 'p-1 font-mono text-xs' }, record.sessionId),
+                  h('td', { class: 'p-1' }, record.oldName),
+                  h('td', { class: 'p-1' }, record.newName),
+                  h('td', { class: 'p-1' }, record.source),
+                  h('td', { class: 'p-1' }, `#${record.runId}`),
+                  h('td', { class: 'p-1 whitespace-nowrap' }, record.revertedAt !== null
+                    ? [h('span', { class: 'text-xs', style: { color: 'var(--p-surface-400)' } }, 'Reverted')]
+                    : [
+                      rowButton('Revert', 'Restore the previous name of this session', () => revertRenames({ kind: 'record', recordId: record.id })),
+                      rowButton('Revert run', `Revert every rename of run #${record.runId}`, () => revertRenames({ kind: 'run', runId: record.runId }))
+                    ])
+                ]);
+              }))
+          ])
+        ]),
+        h('div', { class: 'flex gap-3 items-center' }, [
+          h('label', { class: 'text-sm', style: { color: 'var(--p-surface-300)' } }, 'Revert renames since'),
+          h('input', {
+            type: 'datetime-local',
+            value: revertSince.value,
+            onInput: (e: Event) => { revertSince.value = (e.target as HTMLInputElement).value; },
+            class: 'border rounded p-1 text-sm',
+            style: {
+              backgroundColor: 'var(--p-surface-900)',
+              color: 'var(--p-surface-0)',
+              borderColor: 'var(--p-surface-600)'
+            }
+          }),
+          h('button', {
+            onClick: onRevertSinceClick,
+            class: 'px-4 py-2 rounded border font-medium',
+            style: {
+              borderColor: 'var(--p-surface-600)',
+              color: 'var(--p-surface-0)',
+              backgroundColor: 'transparent',
+              cursor: 'pointer'
+            }
+          }, 'Revert')
+        ])
       ]),
       
       // Main Buttons
@@ -623,12 +2368,12 @@ return tabName;`;
           onClick: onStartClick,
           class: 'px-4 py-2 rounded font-medium',
           style: {
-            backgroundColor: isPolling.value ? 'var(--p-danger-color)' : 'var(--p-primary-color)',
+            backgroundColor: isRunning.value ? 'var(--p-danger-color)' : 'var(--p-primary-color)',
             color: 'var(--p-primary-contrast-color)',
             border: 'none',
             cursor: 'pointer'
           }
-        }, isPolling.value ? 'Stop' : 'Start'),
+        }, isRunning.value ? 'Stop' : 'Start'),
         h('button', {
           onClick: onTestClick,
           class: 'px-4 py-2 rounded font-medium',
@@ -639,6 +2384,16 @@ return tabName;`;
             cursor: 'pointer'
           }
         }, 'Test'),
+        h('button', {
+          onClick: onPreviewClick,
+          class: 'px-4 py-2 rounded font-medium',
+          style: {
+            backgroundColor: 'var(--p-surface-600)',
+            color: 'var(--p-surface-0)',
+            border: 'none',
+            cursor: 'pointer'
+          }
+        }, 'Preview'),
         h('button', {
           onClick: onResetClick,
           class: 'px-4 py-2 rounded border font-medium',
@@ -672,7 +2427,7 @@ return tabName;`;
             border: 'none',
             cursor: 'pointer'
           }
-        }, 'Save Function'),
+        }, namingMode.value === 'template' ? 'Save Template' : 'Save Function'),
         h('button', {
           onClick: onResetFunctionClick,
           class: 'px-4 py-2 rounded border font-medium',
@@ -682,7 +2437,7 @@ return tabName;`;
             backgroundColor: 'transparent',
             cursor: 'pointer'
           }
-        }, 'Default Function')
+        }, namingMode.value === 'template' ? 'Default Template' : 'Default Function')
       ])
     ]);
   }
@@ -0,0 +1,136 @@
+// Activity log: structured entries kept in a ring buffer and exported as an audit trail
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: { value: LogLevel; label: string }[] = [
+  { value: 'debug', label: 'Debug' },
+  { value: 'info', label: 'Info' },
+  { value: 'warn', label: 'Warning' },
+  { value: 'error', label: 'Error' }
+];
+
+// What the entry is about, used to group entries in exports
+export type LogEvent =
+  | 'general'
+  | 'run' // Reconciliation and event runs
+  | 'fetch' // Session details
+  | 'rename'
+  | 'revert'
+  | 'lock'
+  | 'organize' // Collections
+  | 'naming' // Rules, template and naming function
+  | 'settings'
+  | 'profile'
+  | 'storage';
+
+export interface LogEntry {
+  id: string;
+  timestamp: number; // Milliseconds since epoch
+  level: LogLevel;
+  event: LogEvent;
+  message: string;
+  sessionId: string | null;
+  oldName: string | null;
+  newName: string | null;
+  error: string | null;
+}
+
+export type LogDetails = Partial<Pick<LogEntry, 'level' | 'event' | 'sessionId' | 'oldName' | 'newName' | 'error'>>;
+
+export const DEFAULT_LOG_SIZE = 500;
+export const MIN_LOG_SIZE = 50;
+export const MAX_LOG_SIZE = 10000;
+
+export function createLogEntry(message: string, details: LogDetails = {}): LogEntry {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+    timestamp: Date.now(),
+    level: details.level ?? 'info',
+    event: details.event ?? 'general',
+    message,
+    sessionId: details.sessionId ?? null,
+    oldName: details.oldName ?? null,
+    newName: details.newName ?? null,
+    error: details.error ?? null
+  };
+}
+
+// Coerce a stored value into an entry, returns null if it cannot be one
+export function sanitizeLogEntry(value: unknown): LogEntry | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.id !== 'string' || typeof entry.message !== 'string' || typeof entry.timestamp !== 'number') {
+    return null;
+  }
+
+  const text = (field: unknown) => typeof field === 'string' ? field : null;
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    level: LOG_LEVELS.find(level => level.value === entry.level)?.value ?? 'info',
+    event: typeof entry.event === 'string' ? entry.event as LogEvent : 'general',
+    message: entry.message,
+    sessionId: text(entry.sessionId),
+    oldName: text(entry.oldName),
+    newName: text(entry.newName),
+    error: text(entry.error)
+  };
+}
+
+export function sanitizeLogSize(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(Math.max(Math.floor(value), MIN_LOG_SIZE), MAX_LOG_SIZE)
+    : DEFAULT_LOG_SIZE;
+}
+
+// Newest entries first, the oldest ones are dropped past size
+export function appendLogEntries(log: LogEntry[], entries: LogEntry[], size: number): LogEntry[] {
+  return [...[...entries].reverse(), ...log].slice(0, size);
+}
+
+export interface LogFilter {
+  minLevel: LogLevel;
+  sessionId: string; // Empty for all sessions
+  text: string; // Case-insensitive, searched in the message, names and error
+}
+
+export const EMPTY_LOG_FILTER: LogFilter = { minLevel: 'debug', sessionId: '', text: '' };
+
+export function filterLogEntries(log: LogEntry[], filter: LogFilter): LogEntry[] {
+  const minRank = LOG_LEVELS.findIndex(level => level.value === filter.minLevel);
+  const sessionId = filter.sessionId.trim();
+  const text = filter.text.trim().toLowerCase();
+
+  return log.filter(entry => {
+    if (LOG_LEVELS.findIndex(level => level.value === entry.level) < minRank) return false;
+    if (sessionId && entry.sessionId !== sessionId) return false;
+    if (text) {
+      const haystack = [entry.message, entry.oldName, entry.newName, entry.error].filter(Boolean).join('\n').toLowerCase();
+      if (!haystack.includes(text)) return false;
+    }
+    return true;
+  });
+}
+
+const EXPORT_COLUMNS = ['timestamp', 'level', 'event', 'sessionId', 'oldName', 'newName', 'message', 'error'] as const;
+
+// Oldest first, as an audit trail reads
+export function exportLogJson(log: LogEntry[]): string {
+  return JSON.stringify(
+    [...log].reverse().map(entry => ({ ...entry, timestamp: new Date(entry.timestamp).toISOString() })),
+    null,
+    2
+  );
+}
+
+export function exportLogCsv(log: LogEntry[]): string {
+  const escape = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const rows = [...log].reverse().map(entry => EXPORT_COLUMNS.map(column => {
+    if (column === 'timestamp') return new Date(entry.timestamp).toISOString();
+    return escape(entry[column] ?? '');
+  }).join(','));
+  return [EXPORT_COLUMNS.join(','), ...rows].join('\r\n');
+}
@@ -0,0 +1,55 @@
+// Sessions owned by the user: the plugin never renames them
+
+export type LockReason = 'renamed' | 'user'; // Renamed by hand and detected, or locked from the UI
+
+export interface SessionLock {
+  reason: LockReason;
+  name: string; // Name of the session when it was locked
+  lockedAt: number; // Milliseconds since epoch
+}
+
+export type SessionLocks = Record<string, SessionLock>;
+
+// Caido names new replay sessions with an increasing number
+export function isCaidoDefaultName(name: string): boolean {
+  return /^\s*\d*\s*$/.test(name);
+}
+
+// A session was renamed by hand when its name is neither Caido's nor the last one the plugin applied
+export function isManuallyRenamed(currentName: string, appliedName: string | undefined): boolean {
+  return !isCaidoDefaultName(currentName) && currentName !== appliedName;
+}
+
+export function createSessionLock(reason: LockReason, name: string): SessionLock {
+  return { reason, name, lockedAt: Date.now() };
+}
+
+// Coerce stored locks, dropping entries that cannot be one
+export function sanitizeSessionLocks(value: unknown): SessionLocks {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  const locks: SessionLocks = {};
+  Object.entries(value as Record<string, unknown>).forEach(([sessionId, stored]) => {
+    if (!stored || typeof stored !== 'object') return;
+    const lock = stored as Record<string, unknown>;
+    locks[sessionId] = {
+      reason: lock.reason === 'user' ? 'user' : 'renamed',
+      name: typeof lock.name === 'string' ? lock.name : '',
+      lockedAt: typeof lock.lockedAt === 'number' ? lock.lockedAt : 0
+    };
+  });
+  return locks;
+}
+
+// Keeps the string values of a stored session map
+export function sanitizeNameMap(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
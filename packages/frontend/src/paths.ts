@@ -0,0 +1,95 @@
+// Path normalization: variable segments become placeholders and long paths are shortened
+//
+//   /api/v1/users/8f3a2c1e-4b5d-4c6e-9f70-1a2b3c4d5e6f/orders?page=2
+//   -> …/users/{uuid}/orders (maxLength 24, ellipsis 'start')
+
+export type EllipsisPosition = 'start' | 'middle' | 'end';
+
+export interface PathFormat {
+  maxLength: number; // Length of the normalized path, ellipsis included
+  ellipsis: EllipsisPosition;
+}
+
+export const DEFAULT_PATH_FORMAT: PathFormat = { maxLength: 30, ellipsis: 'start' };
+
+export function sanitizePathFormat(value: unknown): PathFormat {
+  const format = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  return {
+    maxLength: typeof format.maxLength === 'number' && format.maxLength >= 8 ? Math.floor(format.maxLength) : DEFAULT_PATH_FORMAT.maxLength,
+    ellipsis: format.ellipsis === 'middle' || format.ellipsis === 'end' ? format.ellipsis : 'start'
+  };
+}
+
+// Also evaluated inside the naming sandbox from its source text (see sandbox.ts),
+// so it must stay self-contained: no imports and no references to module scope.
+export function normalizePath(path: string, format: Partial<PathFormat> = {}): string {
+  const maxLength = Math.max(format.maxLength ?? 30, 8);
+  const ellipsis = format.ellipsis ?? 'start';
+
+  const placeholderFor = (segment: string): string => {
+    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment)) return '{uuid}';
+    if (/^\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/.test(segment)) return '{date}';
+    if (/^\d+$/.test(segment)) return '{id}';
+    if (/^(?:0x)?[0-9a-f]{12,}$/i.test(segment) && /\d/.test(segment)) return '{hash}';
+    // JWTs and base64 / base64url tokens, words are kept by requiring letters and digits
+    if (/^[\w-]+\.[\w-]+\.[\w-]+$/.test(segment) && segment.length >= 32) return '{token}';
+    if (/^[A-Za-z0-9+/_-]{20,}={0,2}$/.test(segment) && /\d/.test(segment) && /[A-Za-z]/.test(segment)) return '{token}';
+    return segment;
+  };
+
+  const normalizeSegment = (segment: string): string => {
+    let decoded = segment;
+    try {
+      decoded = decodeURIComponent(segment);
+    } catch {
+      // Keep malformed escapes as written
+    }
+
+    // "12345.json" keeps its extension
+    const extension = /^(.+?)(\.[A-Za-z][A-Za-z0-9]{0,4})$/.exec(decoded);
+    if (extension && extension[1] && extension[2]) {
+      const placeholder = placeholderFor(extension[1]);
+      if (placeholder !== extension[1]) return placeholder + extension[2];
+    }
+    return placeholderFor(decoded);
+  };
+
+  const pathname = path.replace(/[?#].*$/, '');
+  const segments = pathname.split('/').filter(Boolean).map(normalizeSegment);
+  const full = `/${segments.join('/')}`;
+  if (full.length <= maxLength) {
+    return full;
+  }
+
+  if (ellipsis === 'end') {
+    return `${full.substring(0, maxLength - 1)}…`;
+  }
+
+  // Meaningful segments are usually the last ones: keep as many as fit
+  const keepTail = (budget: number): string[] => {
+    const tail: string[] = [];
+    let length = 0;
+    for (let i = segments.length - 1; i >= 0; i--) {
+      const segment = segments[i] as string;
+      if (length + segment.length + 1 > budget) break;
+      tail.unshift(segment);
+      length += segment.length + 1;
+    }
+    return tail;
+  };
+
+  if (ellipsis === 'middle' && segments.length > 2) {
+    const head = `/${segments[0]}/…`;
+    const tail = keepTail(maxLength - head.length);
+    if (tail.length > 0 && tail.length < segments.length - 1) {
+      return `${head}/${tail.join('/')}`;
+    }
+  }
+
+  const tail = keepTail(maxLength - 1);
+  if (tail.length === 0) {
+    const last = segments[segments.length - 1] ?? '';
+    return `…${last.substring(last.length - (maxLength - 1))}`;
+  }
+  return `…/${tail.join('/')}`;
+}
@@ -0,0 +1,154 @@
+// Naming profiles: named bundles of naming settings, shared between testers as JSON files
+
+import { sanitizeDedupeStrategy, type DedupeStrategy } from "./dedupe";
+import { DEFAULT_PATH_FORMAT, sanitizePathFormat, type PathFormat } from "./paths";
+import { DEFAULT_RESPONSE_LABEL, sanitizeResponseLabel, type ResponseLabel } from "./response";
+import { sanitizeRule, type NamingRule } from "./rules";
+
+// How names are generated when no rule matches
+export type NamingMode = 'function' | 'template';
+
+export interface NamingProfile {
+  id: string;
+  name: string;
+  namingMode: NamingMode;
+  customNamingFunction: string; // Empty for the default function
+  namingTemplate: string; // Empty for the default template
+  namingRules: NamingRule[];
+  pathFormat: PathFormat;
+  dedupeStrategy: DedupeStrategy;
+  responseLabel: ResponseLabel;
+}
+
+export function createProfile(name: string, settings: Partial<Omit<NamingProfile, 'id' | 'name'>> = {}): NamingProfile {
+  return {
+    namingMode: 'function',
+    customNamingFunction: '',
+    namingTemplate: '',
+    namingRules: [],
+    pathFormat: DEFAULT_PATH_FORMAT,
+    dedupeStrategy: 'counter',
+    responseLabel: DEFAULT_RESPONSE_LABEL,
+    ...settings,
+    id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+    name
+  };
+}
+
+// Coerce a stored or imported value into a profile, returns null if it cannot be one
+export function sanitizeProfile(value: unknown): NamingProfile | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const profile = value as Record<string, unknown>;
+  if (typeof profile.id !== 'string' || typeof profile.name !== 'string') {
+    return null;
+  }
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    namingMode: profile.namingMode === 'template' ? 'template' : 'function',
+    customNamingFunction: typeof profile.customNamingFunction === 'string' ? profile.customNamingFunction : '',
+    namingTemplate: typeof profile.namingTemplate === 'string' ? profile.namingTemplate : '',
+    namingRules: Array.isArray(profile.namingRules)
+      ? profile.namingRules.map(sanitizeRule).filter((rule): rule is NamingRule => rule !== null)
+      : [],
+    pathFormat: sanitizePathFormat(profile.pathFormat),
+    dedupeStrategy: sanitizeDedupeStrategy(profile.dedupeStrategy),
+    responseLabel: sanitizeResponseLabel(profile.responseLabel)
+  };
+}
+
+// Exported files
+
+export const EXPORT_FORMAT = 'replay-tab-renamer';
+export const EXPORT_VERSION = 1;
+
+export type ConfigurationExport =
+  | { format: typeof EXPORT_FORMAT; version: number; exportedAt: string; kind: 'profile'; profile: NamingProfile }
+  | {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    kind: 'configuration';
+    profiles: NamingProfile[];
+    activeProfileId: string;
+    settings: Record<string, unknown>; // Plugin settings outside profiles, e.g. polling interval
+  };
+
+export class ProfileImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileImportError';
+  }
+}
+
+export function exportProfile(profile: NamingProfile): string {
+  const file: ConfigurationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    kind: 'profile',
+    profile
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function exportConfiguration(profiles: NamingProfile[], activeProfileId: string, settings: Record<string, unknown>): string {
+  const file: ConfigurationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    kind: 'configuration',
+    profiles,
+    activeProfileId,
+    settings
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Validates an exported file, profiles are sanitized the same way as stored ones
+export function parseConfigurationExport(text: string): ConfigurationExport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new ProfileImportError(`Not a JSON file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) || (parsed as Record<string, unknown>).format !== EXPORT_FORMAT) {
+    throw new ProfileImportError('Not a Replay Tab Renamer export');
+  }
+  const file = parsed as Record<string, unknown>;
+  if (typeof file.version !== 'number' || file.version > EXPORT_VERSION) {
+    throw new ProfileImportError(`Unsupported export version ${String(file.version)}, this plugin reads up to version ${EXPORT_VERSION}`);
+  }
+
+  const base = { format: EXPORT_FORMAT, version: file.version, exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '' } as const;
+
+  if (file.kind === 'profile') {
+    const profile = sanitizeProfile(file.profile);
+    if (!profile) {
+      throw new ProfileImportError('The file does not contain a valid profile');
+    }
+    return { ...base, kind: 'profile', profile };
+  }
+
+  if (file.kind === 'configuration') {
+    const profiles = Array.isArray(file.profiles)
+      ? file.profiles.map(sanitizeProfile).filter((profile): profile is NamingProfile => profile !== null)
+      : [];
+    if (profiles.length === 0) {
+      throw new ProfileImportError('The file does not contain any valid profile');
+    }
+    const activeProfileId = profiles.find(profile => profile.id === file.activeProfileId)?.id ?? (profiles[0] as NamingProfile).id;
+    const settings = file.settings && typeof file.settings === 'object' && !Array.isArray(file.settings)
+      ? file.settings as Record<string, unknown>
+      : {};
+    return { ...base, kind: 'configuration', profiles, activeProfileId, settings };
+  }
+
+  throw new ProfileImportError(`Unknown export kind "${String(file.kind)}"`);
+}
@@ -0,0 +1,108 @@
+// Detection of RPC-style APIs that multiplex many operations on one endpoint
+
+import type { ParsedRequest } from "./request";
+
+export type ApiProtocol = 'graphql' | 'jsonrpc' | 'soap';
+
+export interface ApiOperation {
+  protocol: ApiProtocol;
+  name: string; // e.g. "updateUser"
+  label: string; // e.g. "gql:updateUser"
+}
+
+const PROTOCOL_PREFIXES: Record<ApiProtocol, string> = {
+  graphql: 'gql',
+  jsonrpc: 'rpc',
+  soap: 'soap'
+};
+
+type OperationSource = Omit<ParsedRequest, 'operation'>;
+
+function createOperation(protocol: ApiProtocol, name: string): ApiOperation {
+  return { protocol, name, label: `${PROTOCOL_PREFIXES[protocol]}:${name}` };
+}
+
+// Batched requests are named after their first operation
+function firstObject(json: unknown): Record<string, unknown> | null {
+  const value = Array.isArray(json) ? json[0] : json;
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+// First field of the selection set, skipping the operation header, comments and aliases
+export function getFirstGraphQLField(query: string): string | null {
+  const withoutComments = query.replace(/#[^\n]*/g, '');
+  const selectionStart = withoutComments.indexOf('{');
+  if (selectionStart === -1) {
+    return null;
+  }
+
+  const match = /^\s*(?:[_A-Za-z]\w*\s*:\s*)?([_A-Za-z]\w*)/.exec(withoutComments.substring(selectionStart + 1));
+  return match?.[1] ?? null;
+}
+
+function getGraphQLName(operationName: unknown, query: unknown): string | null {
+  if (typeof operationName === 'string' && operationName.trim()) {
+    return operationName.trim();
+  }
+  if (typeof query !== 'string') {
+    return null;
+  }
+
+  // Named operation, e.g. "mutation updateUser($id: ID!) { ... }"
+  const named = /^\s*(?:query|mutation|subscription)\s+([_A-Za-z]\w*)/.exec(query.replace(/#[^\n]*/g, ''));
+  return named?.[1] ?? getFirstGraphQLField(query);
+}
+
+function detectGraphQL(request: OperationSource): ApiOperation | null {
+  const body = request.body.type === 'json' ? firstObject(request.body.json) : null;
+  if (body && typeof body.query === 'string') {
+    const name = getGraphQLName(body.operationName, body.query);
+    return name ? createOperation('graphql', name) : null;
+  }
+
+  // Persisted queries and GET requests carry the operation in the query string
+  if (request.query.query !== undefined || (request.query.operationName && /graphql/i.test(request.pathname))) {
+    const name = getGraphQLName(request.query.operationName, request.query.query);
+    return name ? createOperation('graphql', name) : null;
+  }
+
+  return null;
+}
+
+function detectJsonRpc(request: OperationSource): ApiOperation | null {
+  const body = request.body.type === 'json' ? firstObject(request.body.json) : null;
+  if (body && typeof body.jsonrpc === 'string' && typeof body.method === 'string' && body.method) {
+    return createOperation('jsonrpc', body.method);
+  }
+  return null;
+}
+
+function getSoapActionName(action: string): string {
+  const unquoted = action.trim().replace(/^"|"$/g, '');
+  return unquoted.split(/[/#:]/).filter(Boolean).pop() ?? '';
+}
+
+function detectSoap(request: OperationSource): ApiOperation | null {
+  const header = request.headers.find(h => h.name.toLowerCase() === 'soapaction');
+  const contentType = request.headers.find(h => h.name.toLowerCase() === 'content-type')?.value ?? '';
+  const raw = request.body.type === 'text' ? request.body.raw : '';
+  const envelope = /<(?:[\w-]+:)?Envelope[\s>]/.test(raw);
+
+  if (!header && !envelope && !/application\/soap\+xml/i.test(contentType)) {
+    return null;
+  }
+
+  // SOAP 1.1 uses the SOAPAction header, SOAP 1.2 the action parameter of the content type
+  const action = header?.value ?? /;\s*action="?([^";]+)"?/i.exec(contentType)?.[1] ?? '';
+  const actionName = getSoapActionName(action);
+  if (actionName) {
+    return createOperation('soap', actionName);
+  }
+
+  const element = /<(?:[\w-]+:)?Body[^>]*>\s*<(?:[\w-]+:)?([\w.-]+)/.exec(raw)?.[1];
+  return element ? createOperation('soap', element) : null;
+}
+
+export function detectOperation(request: OperationSource): ApiOperation | null {
+  return detectGraphQL(request) ?? detectJsonRpc(request) ?? detectSoap(request);
+}
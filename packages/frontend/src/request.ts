@@ -0,0 +1,298 @@
+// Request model passed to naming functions, rules and templates
+
+import { detectOperation, type ApiOperation } from "./protocols";
+import type { ResponseSummary } from "./response";
+
+export interface RequestHeader {
+  name: string;
+  value: string;
+}
+
+export type RequestBody =
+  | { type: 'none' }
+  | { type: 'json'; raw: string; json: unknown }
+  | { type: 'form'; raw: string; fields: Record<string, string> }
+  | { type: 'multipart'; raw: string; fieldNames: string[] }
+  | { type: 'text'; raw: string };
+
+// How the request target is written (RFC 9112, section 3.2)
+//   origin: /path?query
+//   absolute: http://host/path?query, sent to proxies
+//   authority: host:port, for CONNECT
+//   asterisk: *, for server-wide OPTIONS
+export type RequestTargetForm = 'origin' | 'absolute' | 'authority' | 'asterisk';
+
+export interface ParsedRequest {
+  method: string;
+  target: string; // Request target as written
+  targetForm: RequestTargetForm;
+  path: string; // Path and query string, the target as written for authority and asterisk forms
+  pathname: string; // Path without query string and fragment
+  host: string; // From an absolute target, else the :authority pseudo-header, else the Host header
+  httpVersion: string; // e.g. "HTTP/1.1", "HTTP/2" for pseudo-header requests, empty when missing
+  headers: RequestHeader[]; // In request order, duplicates kept
+  queryString: string;
+  query: Record<string, string>; // First value of each parameter
+  cookies: Record<string, string>;
+  body: RequestBody;
+  operation: ApiOperation | null; // GraphQL, JSON-RPC or SOAP operation, see protocols.ts
+  websocket: boolean; // WebSocket opening handshake, HTTP/1.1 upgrade or HTTP/2 extended CONNECT
+  response: ResponseSummary | null; // Response of the active entry, only set with response-aware names
+}
+
+export type RequestParseErrorReason =
+  | 'empty' // Nothing but whitespace
+  | 'request-line' // Not "METHOD target [version]", or no :method / :path pseudo-header
+  | 'method' // Not an HTTP token
+  | 'target' // None of the request target forms
+  | 'version'; // Third request line part that is not an HTTP version
+
+export type RequestParseResult =
+  | { ok: true; request: ParsedRequest }
+  | { ok: false; reason: RequestParseErrorReason; message: string };
+
+// Method shown in tab names, WebSocket handshakes are told apart from plain requests
+export function getDisplayMethod(request: Pick<ParsedRequest, 'method' | 'websocket'>): string {
+  return request.websocket ? 'WS' : request.method;
+}
+
+// Case-insensitive header lookup, returns the first value
+export function getHeader(request: Pick<ParsedRequest, 'headers'>, name: string): string | undefined {
+  const lowerName = name.toLowerCase();
+  return request.headers.find(header => header.name.toLowerCase() === lowerName)?.value;
+}
+
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+// Without a prototype, names like constructor or __proto__ are plain keys
+function createStringMap(): Record<string, string> {
+  return Object.create(null) as Record<string, string>;
+}
+
+export function parseUrlEncoded(input: string): Record<string, string> {
+  const params = createStringMap();
+  for (const pair of input.split('&')) {
+    if (!pair) continue;
+    const separatorIndex = pair.indexOf('=');
+    const key = decodeComponent(separatorIndex === -1 ? pair : pair.substring(0, separatorIndex));
+    const value = separatorIndex === -1 ? '' : decodeComponent(pair.substring(separatorIndex + 1));
+    if (!(key in params)) {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+function parseCookies(headers: RequestHeader[]): Record<string, string> {
+  const cookies = createStringMap();
+  for (const header of headers) {
+    if (header.name.toLowerCase() !== 'cookie') continue;
+    for (const pair of header.value.split(';')) {
+      const separatorIndex = pair.indexOf('=');
+      if (separatorIndex === -1) continue;
+      const name = pair.substring(0, separatorIndex).trim();
+      if (name && !(name in cookies)) {
+        cookies[name] = pair.substring(separatorIndex + 1).trim();
+      }
+    }
+  }
+  return cookies;
+}
+
+function parseMultipartFieldNames(body: string, contentType: string): string[] {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) return [];
+
+  const names: string[] = [];
+  for (const part of body.split(`--${boundary}`)) {
+    const name = /content-disposition:[^\n]*?\bname="([^"]*)"/i.exec(part)?.[1];
+    if (name !== undefined) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+function parseBody(raw: string, contentType: string): RequestBody {
+  if (!raw) {
+    return { type: 'none' };
+  }
+
+  const mediaType = contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+  const trimmed = raw.trim();
+
+  if (mediaType.includes('json') || (!mediaType && /^[[{]/.test(trimmed))) {
+    try {
+      return { type: 'json', raw, json: JSON.parse(trimmed) };
+    } catch {
+      return { type: 'text', raw };
+    }
+  }
+
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    return { type: 'form', raw, fields: parseUrlEncoded(trimmed) };
+  }
+
+  if (mediaType === 'multipart/form-data') {
+    return { type: 'multipart', raw, fieldNames: parseMultipartFieldNames(raw, contentType) };
+  }
+
+  return { type: 'text', raw };
+}
+
+// Replay entries hold the request bytes base64 encoded. They are read as UTF-8, or byte per
+// character when they are not valid UTF-8 (binary bodies).
+export function decodeRawRequest(base64: string): string {
+  const binary = atob(base64);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  } catch {
+    return binary;
+  }
+}
+
+const TOKEN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const HTTP_VERSION = /^HTTP\/\d(?:\.\d)?$/i;
+
+type RequestTarget = Pick<ParsedRequest, 'targetForm' | 'path'> & { authority: string | null };
+
+function parseTarget(target: string, method: string): RequestTarget | null {
+  if (target.startsWith('/')) {
+    return { targetForm: 'origin', path: target, authority: null };
+  }
+  if (target === '*') {
+    return { targetForm: 'asterisk', path: target, authority: null };
+  }
+
+  const absolute = /^[a-z][a-z0-9+.-]*:\/\/([^/?#]*)(.*)$/i.exec(target);
+  if (absolute) {
+    // Credentials in the authority are not part of the host
+    const authority = (absolute[1] as string).replace(/^.*@/, '');
+    const rest = absolute[2] as string;
+    return { targetForm: 'absolute', path: rest.startsWith('/') ? rest : `/${rest}`, authority };
+  }
+
+  // host:port, or [IPv6]:port
+  if (/^(?:\[[0-9a-f:.]+\]|[^\s/?#@:[\]]+):\d+$/i.test(target) || (method === 'CONNECT' && !/[\s/?#@]/.test(target))) {
+    return { targetForm: 'authority', path: target, authority: target };
+  }
+  return null;
+}
+
+// Splits "name: value" header lines, continuation lines (obsolete folding) are joined to the
+// previous value with a space. Pseudo-headers keep their leading colon. Lines without a colon
+// are ignored.
+function parseHeaderLines(lines: string[]): RequestHeader[] {
+  const headers: RequestHeader[] = [];
+  for (const line of lines) {
+    const previous = headers[headers.length - 1];
+    if (/^[ \t]/.test(line) && previous) {
+      previous.value = `${previous.value} ${line.trim()}`.trim();
+      continue;
+    }
+
+    const separatorIndex = line.indexOf(':', line.startsWith(':') ? 1 : 0);
+    if (separatorIndex > 0) {
+      headers.push({
+        name: line.substring(0, separatorIndex).trim(),
+        value: line.substring(separatorIndex + 1).trim()
+      });
+    }
+  }
+  return headers;
+}
+
+function isWebSocketHandshake(method: string, headers: RequestHeader[], pseudoHeaders: RequestHeader[]): boolean {
+  if (method === 'CONNECT') {
+    return getHeader({ headers: pseudoHeaders }, ':protocol')?.toLowerCase() === 'websocket';
+  }
+  const upgrade = getHeader({ headers }, 'upgrade') ?? '';
+  const connection = getHeader({ headers }, 'connection') ?? '';
+  return /(?:^|,)\s*websocket\s*(?:,|$)/i.test(upgrade) && /(?:^|,)\s*upgrade\s*(?:,|$)/i.test(connection);
+}
+
+// Request line: METHOD SP target SP version (RFC 9112, section 3). Unencoded spaces in the target
+// are tolerated, the version being the last part. HTTP/2 requests written as pseudo-headers only
+// (":method: GET", ":path: /") are read as well.
+export function parseRawRequest(raw: string): RequestParseResult {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return { ok: false, reason: 'empty', message: 'The request is empty' };
+  }
+
+  // Normalize line breaks
+  const lines = raw.replace(/\r\n?/g, '\n').split('\n');
+
+  // Lines before the request line are ignored (RFC 9112, section 2.2)
+  const firstLineIndex = lines.findIndex(line => line.trim());
+  const pseudoHeaderRequest = (lines[firstLineIndex] as string).startsWith(':');
+  const headerStart = pseudoHeaderRequest ? firstLineIndex : firstLineIndex + 1;
+  let headerEnd = lines.findIndex((line, index) => index >= headerStart && !line.trim());
+  if (headerEnd === -1) headerEnd = lines.length;
+
+  const allHeaders = parseHeaderLines(lines.slice(headerStart, headerEnd));
+  const pseudoHeaders = allHeaders.filter(header => header.name.startsWith(':'));
+  const headers = allHeaders.filter(header => !header.name.startsWith(':'));
+
+  let method: string;
+  let target: string;
+  let httpVersion: string;
+  if (pseudoHeaderRequest) {
+    method = getHeader({ headers: pseudoHeaders }, ':method') ?? '';
+    target = getHeader({ headers: pseudoHeaders }, ':path') ?? (method === 'CONNECT' ? getHeader({ headers: pseudoHeaders }, ':authority') ?? '' : '');
+    httpVersion = 'HTTP/2';
+    if (!method || !target) {
+      return { ok: false, reason: 'request-line', message: 'Missing :method or :path pseudo-header' };
+    }
+  } else {
+    const parts = (lines[firstLineIndex] as string).trim().split(/\s+/);
+    // "METHOD target" without version is the HTTP/0.9 form
+    const hasVersion = parts.length > 2;
+    method = parts[0] as string;
+    target = (hasVersion ? parts.slice(1, -1) : parts.slice(1)).join(' ');
+    httpVersion = hasVersion ? parts[parts.length - 1] as string : '';
+    if (!target) {
+      return { ok: false, reason: 'request-line', message: 'The request line has no target' };
+    }
+    if (httpVersion && !HTTP_VERSION.test(httpVersion)) {
+      return { ok: false, reason: 'version', message: `"${httpVersion}" is not an HTTP version` };
+    }
+  }
+
+  if (!TOKEN.test(method)) {
+    return { ok: false, reason: 'method', message: `"${method}" is not a valid method` };
+  }
+  const parsedTarget = parseTarget(target, method.toUpperCase());
+  if (!parsedTarget) {
+    return { ok: false, reason: 'target', message: `"${target}" is not a valid request target` };
+  }
+
+  const { targetForm, path, authority } = parsedTarget;
+  const withoutFragment = targetForm === 'origin' || targetForm === 'absolute' ? path.replace(/#.*$/, '') : path;
+  const queryIndex = targetForm === 'origin' || targetForm === 'absolute' ? withoutFragment.indexOf('?') : -1;
+  const queryString = queryIndex === -1 ? '' : withoutFragment.substring(queryIndex + 1);
+
+  const request: Omit<ParsedRequest, 'operation'> = {
+    method,
+    target,
+    targetForm,
+    path,
+    pathname: queryIndex === -1 ? withoutFragment : withoutFragment.substring(0, queryIndex),
+    host: authority ?? getHeader({ headers: pseudoHeaders }, ':authority') ?? getHeader({ headers }, 'host') ?? '',
+    httpVersion: httpVersion.toUpperCase(),
+    headers,
+    queryString,
+    query: parseUrlEncoded(queryString),
+    cookies: parseCookies(headers),
+    body: parseBody(lines.slice(headerEnd + 1).join('\n'), getHeader({ headers }, 'content-type') ?? ''),
+    websocket: isWebSocketHandshake(method.toUpperCase(), headers, pseudoHeaders),
+    response: null
+  };
+
+  return { ok: true, request: { ...request, operation: detectOperation(request) } };
+}
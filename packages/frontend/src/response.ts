@@ -0,0 +1,53 @@
+// Response-aware names: the response of the active entry, shown next to the generated name
+//
+//   [403] POST /admin/users        (format "[{status}]" as a prefix)
+//   POST /admin/users · 1.2kB      (format "· {length}" as a suffix)
+
+export interface ResponseSummary {
+  id: string; // Changes with every entry sent
+  statusCode: number;
+  length: number; // Bytes, headers included
+  roundtripTime: number; // Milliseconds
+  contentType: string; // Media type without parameters, empty when missing or when the label does not use {mime}
+}
+
+export type ResponseLabelPosition = 'prefix' | 'suffix';
+
+export interface ResponseLabel {
+  enabled: boolean; // Responses are only fetched when enabled, they are then available to every naming mode
+  format: string; // Template rendered with the response placeholders, empty for no label
+  position: ResponseLabelPosition;
+}
+
+export const DEFAULT_RESPONSE_LABEL: ResponseLabel = { enabled: false, format: '[{status}]', position: 'prefix' };
+
+export function sanitizeResponseLabel(value: unknown): ResponseLabel {
+  const label = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  return {
+    enabled: label.enabled === true,
+    format: typeof label.format === 'string' ? label.format : DEFAULT_RESPONSE_LABEL.format,
+    position: label.position === 'suffix' ? 'suffix' : 'prefix'
+  };
+}
+
+// Content type of a raw response, read from its headers only
+export function getResponseContentType(raw: string): string {
+  const headEnd = raw.search(/\r?\n\r?\n/);
+  const lines = (headEnd === -1 ? raw : raw.substring(0, headEnd)).split(/\r?\n/).slice(1);
+  for (const line of lines) {
+    const match = /^content-type\s*:\s*([^;]*)/i.exec(line);
+    if (match) return (match[1] as string).trim().toLowerCase();
+  }
+  return '';
+}
+
+export function formatResponseLength(length: number): string {
+  if (length < 1024) return `${length}B`;
+  if (length < 1024 * 1024) return `${(length / 1024).toFixed(1)}kB`;
+  return `${(length / 1024 / 1024).toFixed(1)}MB`;
+}
+
+export function applyResponseLabel(name: string, label: string, position: ResponseLabelPosition): string {
+  if (!label) return name;
+  return position === 'prefix' ? `${label} ${name}` : `${name} ${label}`;
+}
@@ -0,0 +1,119 @@
+// Declarative naming rules
+// Rules are evaluated in order, the first enabled rule whose conditions all match wins.
+
+import { getHeader } from "./request";
+import { getCompiledTemplate, renderTemplate, type TemplateContext } from "./template";
+
+export interface NamingRule {
+  id: string;
+  enabled: boolean;
+  hostGlob: string; // e.g. "*.example.com", empty matches any host
+  methods: string[]; // e.g. ["GET", "POST"], empty matches any method
+  pathRegex: string; // e.g. "^/api/v\\d+/", empty matches any path
+  headerPresent: string; // e.g. "X-Tenant", empty disables the check
+  template: string; // Name template, see template.ts
+  collection: string; // Collection template, empty leaves the session in its collection
+}
+
+export type RuleRequest = TemplateContext;
+
+export function createRule(): NamingRule {
+  return {
+    id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+    enabled: true,
+    hostGlob: '',
+    methods: [],
+    pathRegex: '',
+    headerPresent: '',
+    template: '{method} {path}',
+    collection: ''
+  };
+}
+
+// Coerce a stored value into a rule, returns null if it cannot be one
+export function sanitizeRule(value: unknown): NamingRule | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const rule = value as Record<string, unknown>;
+  if (typeof rule.id !== 'string' || typeof rule.template !== 'string') {
+    return null;
+  }
+
+  return {
+    id: rule.id,
+    enabled: rule.enabled !== false,
+    hostGlob: typeof rule.hostGlob === 'string' ? rule.hostGlob : '',
+    methods: Array.isArray(rule.methods) ? rule.methods.filter((method): method is string => typeof method === 'string') : [],
+    pathRegex: typeof rule.pathRegex === 'string' ? rule.pathRegex : '',
+    headerPresent: typeof rule.headerPresent === 'string' ? rule.headerPresent : '',
+    template: rule.template,
+    collection: typeof rule.collection === 'string' ? rule.collection : ''
+  };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function matchRule(rule: NamingRule, request: RuleRequest): boolean {
+  if (!rule.enabled) {
+    return false;
+  }
+
+  if (rule.hostGlob.trim()) {
+    // Ignore the port unless the glob mentions one
+    const host = rule.hostGlob.includes(':') ? request.host : request.host.replace(/:\d+$/, '');
+    if (!globToRegExp(rule.hostGlob.trim()).test(host)) {
+      return false;
+    }
+  }
+
+  if (rule.methods.length > 0) {
+    const method = request.method.toUpperCase();
+    if (!rule.methods.some(m => m.toUpperCase() === method)) {
+      return false;
+    }
+  }
+
+  if (rule.pathRegex.trim() && !new RegExp(rule.pathRegex).test(request.path)) {
+    return false;
+  }
+
+  if (rule.headerPresent.trim() && getHeader(request, rule.headerPresent.trim()) === undefined) {
+    return false;
+  }
+
+  return true;
+}
+
+// Returns the rendered name and collection of the first matching rule, or null when no rule applies.
+// Rules with an invalid path regex or template are reported through onError and skipped.
+export function evaluateRules(
+  rules: NamingRule[],
+  request: RuleRequest,
+  onError?: (rule: NamingRule, error: unknown) => void
+): { rule: NamingRule; name: string; collection: string | null } | null {
+  for (const rule of rules) {
+    try {
+      if (!matchRule(rule, request)) {
+        continue;
+      }
+
+      const name = renderTemplate(getCompiledTemplate(rule.template), request);
+      if (name) {
+        const collection = rule.collection.trim() ? renderTemplate(getCompiledTemplate(rule.collection), request) : '';
+        return { rule, name, collection: collection || null };
+      }
+    } catch (error) {
+      onError?.(rule, error);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,203 @@
+// Isolated evaluation of user naming functions
+//
+// User code runs in a dedicated Web Worker: no DOM, no localStorage (where Caido keeps
+// its authentication token) and the network APIs are removed before any user code is
+// compiled. A worker stuck in a loop is terminated once the time budget is spent and a
+// fresh worker takes over the remaining requests.
+
+import { DEFAULT_PATH_FORMAT, normalizePath, type PathFormat } from "./paths";
+import type { ParsedRequest } from "./request";
+
+export type SandboxResult =
+  | { ok: true; name: string | null; collection: string | null } // null when the function returned nothing usable
+  | { ok: false; error: string; timedOut: boolean };
+
+type WorkerMessage =
+  | { batchId: number; index: number; result: SandboxResult }
+  | { batchId: number; compileError: string };
+
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'importScripts',
+  'indexedDB',
+  'caches',
+  'BroadcastChannel',
+  'Worker',
+  'SharedWorker',
+  'navigator',
+  'location'
+];
+
+const WORKER_SOURCE = `
+'use strict';
+// Inside a function, so none of the worker's own bindings are globals the user function could reach
+(() => {
+  const post = self.postMessage.bind(self);
+  const listen = self.addEventListener.bind(self);
+  const normalizePathWithDefaults = (() => {
+    const normalizePath = ${normalizePath.toString()};
+    return (defaults) => (path, format) => normalizePath(String(path), { ...defaults, ...format });
+  })();
+
+  // Remove network and storage capabilities from the whole prototype chain
+  for (let scope = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+    for (const name of ${JSON.stringify([...BLOCKED_GLOBALS, 'postMessage', 'addEventListener', 'onmessage'])}) {
+      try { delete scope[name]; } catch (e) {}
+      try { Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false }); } catch (e) {}
+    }
+  }
+
+  listen('message', (event) => {
+    const { batchId, code, requests, pathFormat } = event.data;
+    const normalizePath = normalizePathWithDefaults(pathFormat);
+    let userFunction;
+    try {
+      userFunction = new Function('method', 'path', 'host', 'req', 'normalizePath', code);
+    } catch (error) {
+      post({ batchId, compileError: String(error && error.message || error) });
+      return;
+    }
+
+    requests.forEach((req, index) => {
+      let result;
+      try {
+        const value = userFunction(req.method, req.path, req.host, req, normalizePath);
+        // Either a name or { name, collection }
+        const { name, collection } = value && typeof value === 'object' ? value : { name: value, collection: null };
+        const clean = (text) => typeof text === 'string' && text.trim() ? text.trim() : null;
+        result = { ok: true, name: clean(name), collection: clean(collection) };
+      } catch (error) {
+        result = { ok: false, error: String(error && error.message || error), timedOut: false };
+      }
+      post({ batchId, index, result });
+    });
+  });
+})();
+`;
+
+export interface ForbiddenSyntax {
+  from: number;
+  to: number;
+  message: string;
+}
+
+// Rejected before reaching the worker, dynamic imports cannot be removed from the global scope
+export function findForbiddenSyntax(code: string): ForbiddenSyntax[] {
+  return [...code.matchAll(/\bimport\s*\(/g)].map(match => ({
+    from: match.index ?? 0,
+    to: (match.index ?? 0) + match[0].length,
+    message: 'Dynamic import() is not allowed in naming functions'
+  }));
+}
+
+export class NamingSandbox {
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private nextBatchId = 1;
+
+  // pathFormat holds the defaults of the normalizePath helper given to naming functions
+  constructor(public timeoutMs: number, public pathFormat: PathFormat = DEFAULT_PATH_FORMAT) {}
+
+  // Evaluates the function for every request, results are index aligned with requests
+  async evaluate(code: string, requests: ParsedRequest[]): Promise<SandboxResult[]> {
+    const forbidden = findForbiddenSyntax(code)[0];
+    if (forbidden) {
+      return requests.map(() => ({ ok: false, error: forbidden.message, timedOut: false }));
+    }
+
+    const results: SandboxResult[] = [];
+    while (results.length < requests.length) {
+      const remaining = requests.slice(results.length);
+      const batchResults = await this.runBatch(code, remaining);
+      results.push(...batchResults);
+    }
+    return results;
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.workerUrl) {
+      URL.revokeObjectURL(this.workerUrl);
+      this.workerUrl = null;
+    }
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      if (!this.workerUrl) {
+        this.workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+      }
+      this.worker = new Worker(this.workerUrl);
+    }
+    return this.worker;
+  }
+
+  // Runs until the batch completes or one request exceeds the time budget.
+  // On timeout the worker is replaced and the partial results are returned,
+  // the timed out request being the last one.
+  private runBatch(code: string, requests: ParsedRequest[]): Promise<SandboxResult[]> {
+    const worker = this.getWorker();
+    const batchId = this.nextBatchId++;
+    const results: SandboxResult[] = [];
+
+    return new Promise(resolve => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const finish = () => {
+        if (timer) clearTimeout(timer);
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        resolve(results);
+      };
+
+      const armTimer = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          results.push({ ok: false, error: `Timed out after ${this.timeoutMs}ms`, timedOut: true });
+          this.dispose();
+          finish();
+        }, this.timeoutMs);
+      };
+
+      const onMessage = (event: MessageEvent<WorkerMessage>) => {
+        const message = event.data;
+        if (message.batchId !== batchId) return;
+
+        if ('compileError' in message) {
+          const error = `Syntax error: ${message.compileError}`;
+          while (results.length < requests.length) {
+            results.push({ ok: false, error, timedOut: false });
+          }
+          finish();
+          return;
+        }
+
+        results[message.index] = message.result;
+        if (results.length === requests.length) {
+          finish();
+        } else {
+          armTimer();
+        }
+      };
+
+      const onError = (event: ErrorEvent) => {
+        // Unexpected worker failure, fail the remaining requests and start over next time
+        while (results.length < requests.length) {
+          results.push({ ok: false, error: event.message || 'Sandbox error', timedOut: false });
+        }
+        this.dispose();
+        finish();
+      };
+
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      armTimer();
+      worker.postMessage({ batchId, code, requests, pathFormat: this.pathFormat });
+    });
+  }
+}
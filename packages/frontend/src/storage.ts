@@ -0,0 +1,343 @@
+// Plugin storage schema
+//
+// Stored data carries a schemaVersion. Older data is upgraded by the migrations below, one
+// version at a time, then validated field by field: invalid values are replaced by their
+// default and reported instead of being silently dropped.
+//
+// Settings are global defaults that a Caido project can override, session state is kept per
+// project. The rest of the plugin works on PluginStorage, the view of one project, written
+// back with setProjectStorage to the scope each setting comes from.
+
+import { sanitizeOrganizeMode, type OrganizeMode } from "./collections";
+import { sanitizeRenameRecord, type RenameRecord } from "./history";
+import { DEFAULT_LOG_SIZE, MIN_LOG_SIZE, sanitizeLogEntry, sanitizeLogSize, type LogEntry } from "./log";
+import { sanitizeNameMap, sanitizeSessionLocks, type SessionLocks } from "./ownership";
+import { createProfile, sanitizeProfile, type NamingProfile } from "./profiles";
+
+export const STORAGE_VERSION = 2;
+
+// Oldest entries are dropped past this size, sessions are also pruned once they no longer exist
+export const MAX_KNOWN_SESSIONS = 5000;
+
+// Profile created on first use, and holding the naming settings stored before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Keys of the projects map besides project IDs: session state stored before projects were
+// told apart, claimed by the first project opened, and the state used while no project is open
+export const LEGACY_PROJECT_KEY = 'legacy';
+export const NO_PROJECT_KEY = 'none';
+
+// Storage as seen from one project, see getProjectStorage
+export interface PluginStorage {
+  schemaVersion: number;
+  knownSessions: string[]; // Oldest first
+  pollingInterval: number;
+  reconciliationEnabled: boolean; // Periodic full check next to session events
+  detailsBatchSize: number; // Sessions fetched per batch, a cancelled run stops between batches
+  renameConcurrency: number; // Renames in flight at once
+  functionTimeout: number; // Time budget per request for the naming function, in milliseconds
+  renameHistory: RenameRecord[]; // Newest first
+  appliedNames: Record<string, string>; // Last name the plugin gave each session
+  sessionLocks: SessionLocks; // Sessions the plugin must not rename
+  requestFingerprints: Record<string, string>; // Fingerprint of the request each session was last named after
+  autoFollowEdits: boolean; // Rename known sessions when their request changes
+  organizeMode: OrganizeMode; // How new sessions are sorted into collections
+  profiles: NamingProfile[]; // Naming settings (function, template, rules, path format, de-duplication), never empty
+  activeProfileId: string;
+  activityLog: LogEntry[]; // Newest first, at most logSize entries
+  logSize: number;
+}
+
+// Settings a project can override, the global default applies otherwise
+export const PROJECT_SETTINGS = [
+  'activeProfileId',
+  'pollingInterval',
+  'reconciliationEnabled',
+  'detailsBatchSize',
+  'renameConcurrency',
+  'functionTimeout',
+  'autoFollowEdits',
+  'organizeMode'
+] as const satisfies readonly (keyof PluginStorage)[];
+
+export type ProjectSetting = typeof PROJECT_SETTINGS[number];
+
+// Session IDs only exist within their project, this state has no global value
+export const PROJECT_STATE = [
+  'knownSessions',
+  'renameHistory',
+  'appliedNames',
+  'sessionLocks',
+  'requestFingerprints'
+] as const satisfies readonly (keyof PluginStorage)[];
+
+export type ProjectStateKey = typeof PROJECT_STATE[number];
+
+export type SettingScope = 'global' | 'project';
+
+export interface ProjectData {
+  settings: Partial<Pick<PluginStorage, ProjectSetting>>; // Overrides of the global defaults
+  state: Pick<PluginStorage, ProjectStateKey>;
+}
+
+// What is stored: global settings and the data of every project seen so far
+export interface PluginData extends Omit<PluginStorage, ProjectStateKey> {
+  projects: Record<string, ProjectData>;
+}
+
+export interface StorageLoadResult {
+  data: PluginData;
+  problems: string[]; // What was wrong with the stored data, empty when it was valid
+  readOnly: boolean; // Written by a newer plugin version, saving would lose its data
+}
+
+export function getDefaultData(): PluginData {
+  return {
+    schemaVersion: STORAGE_VERSION,
+    pollingInterval: 30000,
+    reconciliationEnabled: true,
+    detailsBatchSize: 25,
+    renameConcurrency: 4,
+    functionTimeout: 1000,
+    autoFollowEdits: false,
+    organizeMode: 'off',
+    profiles: [{ ...createProfile('Default'), id: DEFAULT_PROFILE_ID }],
+    activeProfileId: DEFAULT_PROFILE_ID,
+    activityLog: [],
+    logSize: DEFAULT_LOG_SIZE,
+    projects: {}
+  };
+}
+
+function getDefaultProjectState(): ProjectData['state'] {
+  return { knownSessions: [], renameHistory: [], appliedNames: {}, sessionLocks: {}, requestFingerprints: {} };
+}
+
+export function getDefaultStorage(): PluginStorage {
+  return getProjectStorage(getDefaultData(), NO_PROJECT_KEY);
+}
+
+type RawData = Record<string, unknown>;
+
+// Migration from version N to N + 1, at index N
+const MIGRATIONS: ((data: RawData) => RawData)[] = [
+  // 0 -> 1: unversioned data, the naming settings move into the default profile
+  data => {
+    const { customNamingFunction, namingMode, namingTemplate, namingRules, pathFormat, dedupeStrategy, ...rest } = data;
+    const profiles = Array.isArray(rest.profiles) && rest.profiles.length > 0
+      ? rest.profiles
+      : [{ id: DEFAULT_PROFILE_ID, name: 'Default', customNamingFunction, namingMode, namingTemplate, namingRules, pathFormat, dedupeStrategy }];
+    return { ...rest, profiles, schemaVersion: 1 };
+  },
+  // 1 -> 2: session state moves to the legacy project, claimed by the first project opened
+  data => {
+    const { knownSessions, renameHistory, appliedNames, sessionLocks, requestFingerprints, ...rest } = data;
+    const state = { knownSessions, renameHistory, appliedNames, sessionLocks, requestFingerprints };
+    const projects = Object.values(state).some(value => value !== undefined)
+      ? { [LEGACY_PROJECT_KEY]: { settings: {}, state } }
+      : {};
+    return { ...rest, projects, schemaVersion: 2 };
+  }
+];
+
+function describe(value: unknown): string {
+  return Array.isArray(value) ? 'an array' : value === null ? 'null' : `a ${typeof value}`;
+}
+
+export function getActiveProfile(storage: Pick<PluginStorage, 'profiles' | 'activeProfileId'>): NamingProfile {
+  return storage.profiles.find(profile => profile.id === storage.activeProfileId) ?? storage.profiles[0] as NamingProfile;
+}
+
+// Keeps the most recent entries
+export function capKnownSessions(sessionIds: string[]): string[] {
+  return sessionIds.length > MAX_KNOWN_SESSIONS ? sessionIds.slice(sessionIds.length - MAX_KNOWN_SESSIONS) : sessionIds;
+}
+
+export function loadStorage(stored: unknown): StorageLoadResult {
+  const defaults = getDefaultData();
+  const problems: string[] = [];
+
+  // Nothing stored yet
+  if (stored === null || stored === undefined) {
+    return { data: defaults, problems, readOnly: false };
+  }
+  if (typeof stored !== 'object' || Array.isArray(stored)) {
+    problems.push(`Stored data is ${describe(stored)} instead of an object, defaults are used`);
+    return { data: defaults, problems, readOnly: false };
+  }
+
+  let data = stored as RawData;
+  const version = data.schemaVersion === undefined ? 0 : data.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    problems.push(`Invalid schema version ${JSON.stringify(version)}, defaults are used`);
+    return { data: defaults, problems, readOnly: false };
+  }
+
+  const readOnly = version > STORAGE_VERSION;
+  if (readOnly) {
+    problems.push(`Stored by a newer version of the plugin (schema ${version}, this one reads up to ${STORAGE_VERSION}), changes are not saved`);
+  }
+  for (let from = version; from < STORAGE_VERSION; from++) {
+    data = (MIGRATIONS[from] as (data: RawData) => RawData)(data);
+  }
+
+  // Missing fields take their default silently, present but invalid ones are reported
+  const field = <T>(source: RawData, key: string, fallback: T, isValid: (value: unknown) => boolean, label = key): T => {
+    const value = source[key];
+    if (value === undefined) return fallback;
+    if (isValid(value)) return value as T;
+    problems.push(`${label} is ${describe(value)} with an unexpected value, reset to its default`);
+    return fallback;
+  };
+  const isCount = (min: number) => (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= min;
+  const isBoolean = (value: unknown) => typeof value === 'boolean';
+  const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+  // Lists are validated entry by entry, invalid entries are dropped
+  const list = <T>(source: RawData, key: string, sanitize: (value: unknown) => T | null, label = key): T[] => {
+    const values = field<unknown[]>(source, key, [], Array.isArray, label);
+    const valid = values.map(sanitize).filter((value): value is T => value !== null);
+    if (valid.length < values.length) {
+      problems.push(`${values.length - valid.length} invalid ${label} entries dropped`);
+    }
+    return valid;
+  };
+
+  const profiles = list(data, 'profiles', sanitizeProfile);
+  if (profiles.length === 0) {
+    problems.push('No valid profile, the default profile is used');
+    profiles.push(...defaults.profiles);
+  }
+  const isProfileId = (value: unknown) => profiles.some(profile => profile.id === value);
+  const logSize = sanitizeLogSize(field(data, 'logSize', defaults.logSize, isCount(MIN_LOG_SIZE)));
+  const activeProfileId = field(data, 'activeProfileId', defaults.activeProfileId, isProfileId);
+
+  // Validators of the settings a project can override
+  const settingChecks: Record<ProjectSetting, (value: unknown) => boolean> = {
+    activeProfileId: isProfileId,
+    pollingInterval: isCount(1000),
+    reconciliationEnabled: isBoolean,
+    detailsBatchSize: isCount(1),
+    renameConcurrency: isCount(1),
+    functionTimeout: isCount(1),
+    autoFollowEdits: isBoolean,
+    organizeMode: value => sanitizeOrganizeMode(value) === value
+  };
+  const globalSetting = <K extends ProjectSetting>(key: K): PluginData[K] => field(data, key, defaults[key], settingChecks[key]);
+
+  const projects: Record<string, ProjectData> = {};
+  Object.entries(field<RawData>(data, 'projects', {}, isObject)).forEach(([key, value]) => {
+    if (!isObject(value)) {
+      problems.push(`Project ${key} is ${describe(value)}, its settings and session state are reset`);
+      return;
+    }
+
+    const project = value as RawData;
+    const storedSettings = field<RawData>(project, 'settings', {}, isObject, `Settings of project ${key}`);
+    const settings: ProjectData['settings'] = {};
+    PROJECT_SETTINGS.forEach(setting => {
+      const override = storedSettings[setting];
+      if (override === undefined) return;
+      // The profile may have been deleted since, the project then follows the global one
+      if (setting === 'activeProfileId' && typeof override === 'string') {
+        if (isProfileId(override)) settings.activeProfileId = override;
+        return;
+      }
+      if (settingChecks[setting](override)) {
+        Object.assign(settings, { [setting]: override });
+      } else {
+        problems.push(`${setting} of project ${key} is ${describe(override)} with an unexpected value, the global value is used`);
+      }
+    });
+
+    const state = field<RawData>(project, 'state', {}, isObject, `Session state of project ${key}`);
+    projects[key] = {
+      settings,
+      state: {
+        knownSessions: capKnownSessions(list(state, 'knownSessions', value => typeof value === 'string' ? value : null, `knownSessions of project ${key}`)),
+        renameHistory: list(state, 'renameHistory', sanitizeRenameRecord, `renameHistory of project ${key}`),
+        appliedNames: sanitizeNameMap(field(state, 'appliedNames', {}, isObject, `appliedNames of project ${key}`)),
+        sessionLocks: sanitizeSessionLocks(field(state, 'sessionLocks', {}, isObject, `sessionLocks of project ${key}`)),
+        requestFingerprints: sanitizeNameMap(field(state, 'requestFingerprints', {}, isObject, `requestFingerprints of project ${key}`))
+      }
+    };
+  });
+
+  const result: PluginData = {
+    schemaVersion: readOnly ? version : STORAGE_VERSION,
+    pollingInterval: globalSetting('pollingInterval'),
+    reconciliationEnabled: globalSetting('reconciliationEnabled'),
+    detailsBatchSize: globalSetting('detailsBatchSize'),
+    renameConcurrency: globalSetting('renameConcurrency'),
+    functionTimeout: globalSetting('functionTimeout'),
+    autoFollowEdits: globalSetting('autoFollowEdits'),
+    organizeMode: sanitizeOrganizeMode(globalSetting('organizeMode')),
+    profiles,
+    activeProfileId: isProfileId(activeProfileId) ? activeProfileId : (profiles[0] as NamingProfile).id,
+    activityLog: list(data, 'activityLog', sanitizeLogEntry).slice(0, logSize),
+    logSize,
+    projects
+  };
+
+  return { data: result, problems, readOnly };
+}
+
+// Settings of the project over the global ones, and the session state of the project
+export function getProjectStorage(data: PluginData, projectKey: string): PluginStorage {
+  const { projects, ...globals } = data;
+  const project = projects[projectKey];
+  return {
+    ...globals,
+    ...project?.settings,
+    ...(project?.state ?? getDefaultProjectState())
+  };
+}
+
+// Settings are written where they come from: the project when it overrides them, the global defaults otherwise
+export function setProjectStorage(data: PluginData, projectKey: string, storage: PluginStorage): PluginData {
+  const project = data.projects[projectKey] ?? { settings: {}, state: getDefaultProjectState() };
+  const settings = { ...project.settings };
+  const globals: RawData = {};
+
+  for (const [key, value] of Object.entries(storage)) {
+    if ((PROJECT_STATE as readonly string[]).includes(key)) continue;
+    if (key in settings) {
+      Object.assign(settings, { [key]: value });
+    } else {
+      globals[key] = value;
+    }
+  }
+
+  const state = Object.fromEntries(PROJECT_STATE.map(key => [key, storage[key]])) as ProjectData['state'];
+  return {
+    ...data,
+    ...globals,
+    projects: { ...data.projects, [projectKey]: { settings, state } }
+  };
+}
+
+export function getSettingScopes(data: PluginData, projectKey: string): Record<ProjectSetting, SettingScope> {
+  const settings = data.projects[projectKey]?.settings ?? {};
+  return Object.fromEntries(PROJECT_SETTINGS.map(key => [key, key in settings ? 'project' : 'global'])) as Record<ProjectSetting, SettingScope>;
+}
+
+// Moving a setting to the project starts from the global value, moving it back drops the override
+export function setSettingScope(data: PluginData, projectKey: string, key: ProjectSetting, scope: SettingScope): PluginData {
+  const project = data.projects[projectKey] ?? { settings: {}, state: getDefaultProjectState() };
+  const settings = { ...project.settings };
+  if (scope === 'project') {
+    Object.assign(settings, { [key]: settings[key] ?? data[key] });
+  } else {
+    delete settings[key];
+  }
+  return { ...data, projects: { ...data.projects, [projectKey]: { ...project, settings } } };
+}
+
+// Hands the legacy session state to a project that has none yet, null when there is nothing to hand over
+export function claimLegacyProject(data: PluginData, projectKey: string): PluginData | null {
+  const legacy = data.projects[LEGACY_PROJECT_KEY];
+  if (!legacy || projectKey === NO_PROJECT_KEY || data.projects[projectKey]) return null;
+
+  const projects = Object.fromEntries(Object.entries(data.projects).filter(([key]) => key !== LEGACY_PROJECT_KEY));
+  return { ...data, projects: { ...projects, [projectKey]: legacy } };
+}
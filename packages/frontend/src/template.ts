@@ -0,0 +1,372 @@
+// Placeholder template language for tab names
+//
+//   {method} {host:short} {path:segments(-2)|trunc(30)} {query.action} {header.X-Tenant} {body.action}
+//   {method} {operation|default("-")}
+//
+// {method} is "WS" for WebSocket handshakes. {status}, {length}, {time} and {mime} describe
+// the response and are empty unless response-aware names are enabled.
+// Text outside braces is copied as is, "{{" and "}}" produce literal braces.
+// A placeholder is a source followed by filters, the first filter can be introduced
+// with ":" and the following ones with "|".
+
+import { getDisplayMethod, getHeader, type ParsedRequest } from "./request";
+import { formatResponseLength } from "./response";
+
+export type TemplateContext = ParsedRequest;
+
+type FilterArg = number | string;
+
+interface Filter {
+  name: string;
+  args: FilterArg[];
+  position: number;
+}
+
+type TemplatePart =
+  | { kind: 'text'; value: string }
+  | { kind: 'placeholder'; source: string; key: string; filters: Filter[]; position: number };
+
+export interface CompiledTemplate {
+  source: string;
+  parts: TemplatePart[];
+}
+
+export class TemplateSyntaxError extends Error {
+  // Zero-based offset in the template source
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'TemplateSyntaxError';
+    this.position = position;
+  }
+}
+
+const SOURCES = ['method', 'host', 'path', 'operation', 'query', 'header', 'cookie', 'body', 'status', 'length', 'time', 'mime'];
+const KEYED_SOURCES = ['query', 'header', 'cookie', 'body'];
+
+const FILTER_ARITY: Record<string, [number, number]> = {
+  short: [0, 0],
+  upper: [0, 0],
+  lower: [0, 0],
+  segments: [1, 2],
+  trunc: [1, 1],
+  default: [1, 1]
+};
+
+function isKnownFilter(name: string): boolean {
+  return name in FILTER_ARITY || /^(last|first)\d+$/.test(name);
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): TemplatePart[] {
+    const parts: TemplatePart[] = [];
+    let text = '';
+
+    while (this.index < this.input.length) {
+      const char = this.input[this.index];
+      const next = this.input[this.index + 1];
+
+      if (char === '{' && next === '{') {
+        text += '{';
+        this.index += 2;
+      } else if (char === '}' && next === '}') {
+        text += '}';
+        this.index += 2;
+      } else if (char === '{') {
+        if (text) {
+          parts.push({ kind: 'text', value: text });
+          text = '';
+        }
+        parts.push(this.parsePlaceholder());
+      } else if (char === '}') {
+        throw new TemplateSyntaxError('Unexpected "}" (use "}}" for a literal brace)', this.index);
+      } else {
+        text += char;
+        this.index++;
+      }
+    }
+
+    if (text) {
+      parts.push({ kind: 'text', value: text });
+    }
+
+    return parts;
+  }
+
+  private parsePlaceholder(): TemplatePart {
+    const position = this.index;
+    this.index++; // Skip "{"
+    this.skipSpaces();
+
+    const sourcePosition = this.index;
+    const source = this.readIdentifier();
+    if (!source) {
+      throw new TemplateSyntaxError('Expected a placeholder name', sourcePosition);
+    }
+    if (!SOURCES.includes(source)) {
+      throw new TemplateSyntaxError(`Unknown placeholder "${source}" (expected one of ${SOURCES.join(', ')})`, sourcePosition);
+    }
+
+    let key = '';
+    if (this.peek() === '.') {
+      this.index++;
+      const keyPosition = this.index;
+      key = this.readWhile(char => /[\w-]/.test(char));
+      if (!key) {
+        throw new TemplateSyntaxError(`Expected a name after "${source}."`, keyPosition);
+      }
+      if (!KEYED_SOURCES.includes(source)) {
+        throw new TemplateSyntaxError(`Placeholder "${source}" does not take a name`, keyPosition - 1);
+      }
+    } else if (source === 'header' || source === 'cookie' || source === 'body') {
+      throw new TemplateSyntaxError(`Expected a name after "${source}", e.g. {${source}.${source === 'header' ? 'X-Tenant' : 'id'}}`, this.index);
+    }
+
+    const filters: Filter[] = [];
+    this.skipSpaces();
+    if (this.peek() === ':') {
+      this.index++;
+      filters.push(this.parseFilter());
+    }
+
+    this.skipSpaces();
+    while (this.peek() === '|') {
+      this.index++;
+      filters.push(this.parseFilter());
+      this.skipSpaces();
+    }
+
+    if (this.peek() !== '}') {
+      throw new TemplateSyntaxError(this.peek() === undefined ? 'Unclosed placeholder' : `Unexpected "${this.peek()}"`, this.index);
+    }
+    this.index++; // Skip "}"
+
+    return { kind: 'placeholder', source, key, filters, position };
+  }
+
+  private parseFilter(): Filter {
+    this.skipSpaces();
+    const position = this.index;
+    const name = this.readIdentifier();
+    if (!name) {
+      throw new TemplateSyntaxError('Expected a filter name', position);
+    }
+    if (!isKnownFilter(name)) {
+      throw new TemplateSyntaxError(`Unknown filter "${name}"`, position);
+    }
+
+    const args: FilterArg[] = [];
+    this.skipSpaces();
+    if (this.peek() === '(') {
+      this.index++;
+      this.skipSpaces();
+      while (this.peek() !== ')') {
+        args.push(this.parseArg());
+        this.skipSpaces();
+        if (this.peek() === ',') {
+          this.index++;
+          this.skipSpaces();
+        } else if (this.peek() !== ')') {
+          throw new TemplateSyntaxError('Expected "," or ")" in filter arguments', this.index);
+        }
+      }
+      this.index++; // Skip ")"
+    }
+
+    const [min, max] = FILTER_ARITY[name] ?? [0, 0];
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : `${min} to ${max}`;
+      throw new TemplateSyntaxError(`Filter "${name}" expects ${expected} argument(s), got ${args.length}`, position);
+    }
+    if ((name === 'segments' || name === 'trunc') && args.some(arg => typeof arg !== 'number')) {
+      throw new TemplateSyntaxError(`Filter "${name}" expects numeric arguments`, position);
+    }
+
+    return { name, args, position };
+  }
+
+  private parseArg(): FilterArg {
+    const position = this.index;
+    const quote = this.peek();
+
+    if (quote === '"' || quote === "'") {
+      this.index++;
+      const value = this.readWhile(char => char !== quote);
+      if (this.peek() !== quote) {
+        throw new TemplateSyntaxError('Unclosed string argument', position);
+      }
+      this.index++;
+      return value;
+    }
+
+    const number = this.readWhile(char => /[-\d]/.test(char));
+    if (!/^-?\d+$/.test(number)) {
+      throw new TemplateSyntaxError('Expected a number or a quoted string', position);
+    }
+    return parseInt(number, 10);
+  }
+
+  private peek(): string | undefined {
+    return this.input[this.index];
+  }
+
+  private skipSpaces() {
+    this.readWhile(char => char === ' ');
+  }
+
+  private readIdentifier(): string {
+    return this.readWhile(char => /\w/.test(char));
+  }
+
+  private readWhile(predicate: (char: string) => boolean): string {
+    const start = this.index;
+    while (this.index < this.input.length && predicate(this.input[this.index] as string)) {
+      this.index++;
+    }
+    return this.input.substring(start, this.index);
+  }
+}
+
+// Parse and validate a template, throws a TemplateSyntaxError on invalid input
+export function compileTemplate(source: string): CompiledTemplate {
+  return { source, parts: new Parser(source).parse() };
+}
+
+// Returns the error of an invalid template, or null when it is valid
+export function validateTemplate(source: string): TemplateSyntaxError | null {
+  try {
+    compileTemplate(source);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+const compiledCache = new Map<string, CompiledTemplate>();
+
+// Compile once and reuse, rule templates are rendered for every request
+export function getCompiledTemplate(source: string): CompiledTemplate {
+  let compiled = compiledCache.get(source);
+  if (!compiled) {
+    compiled = compileTemplate(source);
+    compiledCache.set(source, compiled);
+  }
+  return compiled;
+}
+
+// Whether a template reads the given source, false for an invalid template
+export function usesSource(template: string, source: string): boolean {
+  try {
+    return getCompiledTemplate(template).parts.some(part => part.kind === 'placeholder' && part.source === source);
+  } catch {
+    return false;
+  }
+}
+
+// Top-level field of a JSON object or form-urlencoded body
+function getBodyField(context: TemplateContext, key: string): string {
+  const { body } = context;
+  if (body.type === 'form') {
+    return body.fields[key] ?? '';
+  }
+  if (body.type === 'json' && body.json && typeof body.json === 'object' && !Array.isArray(body.json)) {
+    const value = (body.json as Record<string, unknown>)[key];
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  return '';
+}
+
+function resolveSource(part: Extract<TemplatePart, { kind: 'placeholder' }>, context: TemplateContext): string {
+  switch (part.source) {
+    case 'method':
+      return getDisplayMethod(context);
+    case 'host':
+      return context.host;
+    case 'path':
+      return context.pathname;
+    case 'operation':
+      return context.operation?.label ?? '';
+    case 'query':
+      return part.key ? context.query[part.key] ?? '' : context.queryString;
+    case 'header':
+      return getHeader(context, part.key) ?? '';
+    case 'cookie':
+      return context.cookies[part.key] ?? '';
+    case 'body':
+      return getBodyField(context, part.key);
+    case 'status':
+      return context.response ? String(context.response.statusCode) : '';
+    case 'length':
+      return context.response ? formatResponseLength(context.response.length) : '';
+    case 'time':
+      return context.response ? `${context.response.roundtripTime}ms` : '';
+    case 'mime':
+      return context.response?.contentType ?? '';
+    default:
+      return '';
+  }
+}
+
+function shortHost(host: string): string {
+  const labels = host.replace(/:\d+$/, '').replace(/^www\./i, '').split('.');
+  // IP addresses are kept whole
+  if (labels.every(label => /^\d+$/.test(label))) {
+    return labels.join('.');
+  }
+  return labels.length > 2 ? labels.slice(0, -2).join('.') : labels[0] ?? '';
+}
+
+function sliceSegments(value: string, start: number, end?: number): string {
+  const segments = value.split('/').filter(Boolean);
+  const sliced = segments.slice(start, end);
+  const joined = sliced.join('/');
+  // Keep the leading slash when the slice starts at the root
+  return value.startsWith('/') && (start === 0 || -start >= segments.length) ? `/${joined}` : joined;
+}
+
+function applyFilter(value: string, filter: Filter): string {
+  const [first, second] = filter.args;
+  const positional = /^(last|first)(\d+)$/.exec(filter.name);
+  if (positional) {
+    const count = parseInt(positional[2] as string, 10);
+    return positional[1] === 'last' ? sliceSegments(value, -count) : sliceSegments(value, 0, count);
+  }
+
+  switch (filter.name) {
+    case 'short':
+      return shortHost(value);
+    case 'upper':
+      return value.toUpperCase();
+    case 'lower':
+      return value.toLowerCase();
+    case 'segments':
+      return sliceSegments(value, first as number, second as number | undefined);
+    case 'trunc': {
+      const max = first as number;
+      return value.length > max ? `${value.substring(0, Math.max(0, max - 1))}…` : value;
+    }
+    case 'default':
+      return value ? value : String(first);
+    default:
+      return value;
+  }
+}
+
+export function renderTemplate(template: CompiledTemplate, context: TemplateContext): string {
+  return template.parts
+    .map(part => part.kind === 'text'
+      ? part.value
+      : part.filters.reduce(applyFilter, resolveSource(part, context)))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}